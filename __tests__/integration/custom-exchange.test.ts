@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it } from 'vitest';
-import { RMQClient, RMQConnectionManager, RMQServer } from '../../src';
+import { RMQClient, RMQConnectionManager, RMQServer, RMQTimeoutError } from '../../src';
 import { getRabbitMQUri } from '../setup/rabbitmq';
 
 describe('Custom Exchange Integration', () => {
@@ -45,4 +45,189 @@ describe('Custom Exchange Integration', () => {
     await client.close();
     await server.close();
   });
+
+  it('should route topic patterns to the most specific handler', async () => {
+    const exchange = 'custom-topic-exchange';
+
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-topic-app',
+      exchange,
+      exchangeType: 'topic',
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'test-topic-app',
+      exchange,
+      exchangeType: 'topic',
+    });
+
+    server.on('order.*.created', async (context, reply) => {
+      reply({ handler: 'region', wildcards: context.wildcards });
+    });
+    server.on('order.eu.created', async (_context, reply) => {
+      reply({ handler: 'eu' });
+    });
+    server.on('audit.#', async (context, reply) => {
+      reply({ handler: 'audit', wildcards: context.wildcards });
+    });
+
+    await server.listen({ prefetch: 1 });
+    await client.connect();
+
+    await expect(client.send('order.us.created', {}, { timeout: 5000 })).resolves.toEqual({
+      handler: 'region',
+      wildcards: ['us'],
+    });
+    await expect(client.send('order.eu.created', {}, { timeout: 5000 })).resolves.toEqual({
+      handler: 'eu',
+    });
+    await expect(client.send('audit.user.login', {}, { timeout: 5000 })).resolves.toEqual({
+      handler: 'audit',
+      wildcards: ['user.login'],
+    });
+
+    await client.close();
+    await server.close();
+  });
+
+  it('should reject wildcard handlers on a direct exchange', () => {
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-direct-app',
+    });
+
+    expect(() => server.on('order.*', async () => {})).toThrow(/exchangeType 'topic'/);
+  });
+
+  it('should expose named routing key parameters', async () => {
+    const exchange = 'custom-params-exchange';
+
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-params-app',
+      exchange,
+      exchangeType: 'topic',
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'test-params-app',
+      exchange,
+      exchangeType: 'topic',
+    });
+
+    server.on('tenant.:tenantId.invoice.:event', async ({ params }, reply) => {
+      reply({ tenantId: params.tenantId, event: params.event });
+    });
+
+    await server.listen({ prefetch: 1 });
+    await client.connect();
+
+    await expect(client.send('tenant.acme.invoice.paid', {}, { timeout: 5000 })).resolves.toEqual({
+      tenantId: 'acme',
+      event: 'paid',
+    });
+
+    await client.close();
+    await server.close();
+  });
+
+  it('should dispatch by routing key on a fanout exchange', async () => {
+    const exchange = 'custom-fanout-exchange';
+
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-fanout-app',
+      exchange,
+      exchangeType: 'fanout',
+      exchangeOptions: { durable: false, autoDelete: true },
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'test-fanout-app',
+      exchange,
+      exchangeType: 'fanout',
+      exchangeOptions: { durable: false, autoDelete: true },
+    });
+
+    server.on('user.get', async (_context, reply) => {
+      reply({ handler: 'user' });
+    });
+    server.on('order.get', async (_context, reply) => {
+      reply({ handler: 'order' });
+    });
+
+    await server.listen({ prefetch: 1 });
+    await client.connect();
+
+    await expect(client.send('user.get', {}, { timeout: 5000 })).resolves.toEqual({
+      handler: 'user',
+    });
+    await expect(client.send('order.get', {}, { timeout: 5000 })).resolves.toEqual({
+      handler: 'order',
+    });
+
+    await client.close();
+    await server.close();
+  });
+
+  it('should bind handlers by headers on a headers exchange', async () => {
+    const exchange = 'custom-headers-exchange';
+
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-headers-app',
+      exchange,
+      exchangeType: 'headers',
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'test-headers-app',
+      exchange,
+      exchangeType: 'headers',
+    });
+
+    server.on(
+      'report.render',
+      async (context, reply) => {
+        reply({ format: context.headers.format });
+      },
+      { bindingHeaders: { format: 'pdf', region: 'eu' }, headersMatch: 'any' },
+    );
+
+    await server.listen({ prefetch: 1 });
+    await client.connect();
+
+    await expect(
+      client.send('report.render', {}, { timeout: 5000, headers: { format: 'pdf' } }),
+    ).resolves.toEqual({ format: 'pdf' });
+    await expect(
+      client.send('report.render', {}, { timeout: 500, headers: { format: 'csv' } }),
+    ).rejects.toThrow(RMQTimeoutError);
+
+    await client.close();
+    await server.close();
+  });
+
+  it('should validate handlers against the exchange type', () => {
+    const headersServer = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-headers-validation-app',
+      exchangeType: 'headers',
+    });
+    const fanoutServer = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'test-fanout-validation-app',
+      exchangeType: 'fanout',
+    });
+
+    expect(() => headersServer.on('report.render', async () => {})).toThrow(/bindingHeaders/);
+    expect(() => fanoutServer.on('cache.flush', async () => {}, { broadcast: true })).toThrow(
+      /fanout/,
+    );
+  });
 });
@@ -227,7 +227,7 @@ describe('Graceful Shutdown Edge Cases', () => {
       await server.close();
     });
 
-    it('should not lose requests when force=false (BUG CHECK)', async () => {
+    it('should wait for pending requests when force=false', async () => {
       const server = new RMQServer({
         uri: rabbitmqUri,
         appName: 'client-edge-3',
@@ -248,21 +248,80 @@ describe('Graceful Shutdown Edge Cases', () => {
       await client.connect();
 
       // This request should complete even with force=false
-      const _requestPromise = client.send('delayed-reply', {}, { timeout: 5000 });
+      const requestPromise = client.send('delayed-reply', {}, { timeout: 5000 });
 
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      // With force=false, should we wait for pending requests?
-      // Current implementation: force=false doesn't reject but also doesn't wait
-      // This might be unexpected behavior!
       const result = await client.shutdown({ force: false });
 
-      // pendingRequests.clear() was called, so count is what was pending
-      expect(result.pendingCount).toBe(1);
+      expect(result).toEqual({ success: true, pendingCount: 0, timedOut: false });
+      await expect(requestPromise).resolves.toEqual({ success: true });
+
+      await server.close();
+    });
 
-      // The request promise is now orphaned - it will never resolve/reject
-      // unless server replies (which it can't because channel is closed)
-      // This test documents the current (potentially buggy) behavior
+    it('should reject new requests while draining', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'client-edge-5',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'client-edge-5',
+      });
+
+      server.on('delayed-reply', async (_ctx, reply) => {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        reply({ success: true });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const requestPromise = client.send('delayed-reply', {}, { timeout: 5000 });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const shutdownPromise = client.shutdown({ force: false });
+
+      await expect(client.send('delayed-reply', {}, { timeout: 5000 })).rejects.toThrow(
+        'Client is shutting down',
+      );
+      await expect(requestPromise).resolves.toEqual({ success: true });
+      await shutdownPromise;
+
+      await server.close();
+    });
+
+    it('should reject requests still pending when the drain times out', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'client-edge-6',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'client-edge-6',
+      });
+
+      server.on('never-reply', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10000));
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const requestPromise = client.send('never-reply', {}, { timeout: 10000 }).catch((e) => e);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const startTime = Date.now();
+      const result = await client.shutdown({ force: false, timeout: 300 });
+
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(300);
+      expect(result).toEqual({ success: false, pendingCount: 1, timedOut: true });
+
+      const error = await requestPromise;
+      expect(error.message).toBe('Client shutdown: request cancelled');
 
       await server.close();
     });
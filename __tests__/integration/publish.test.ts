@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  RMQClient,
+  RMQConnectionError,
+  RMQConnectionManager,
+  RMQPublishError,
+  RMQServer,
+} from '../../src';
+import { getRabbitMQUri } from '../setup/rabbitmq';
+
+describe('RMQClient.publish()', () => {
+  const rabbitmqUri = getRabbitMQUri();
+
+  afterEach(() => {
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should deliver message without reply plumbing', async () => {
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'publish-test-1',
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'publish-test-1',
+    });
+
+    let received: any = null;
+
+    server.on('event.logged', async (context) => {
+      received = {
+        content: context.content,
+        tenant: context.headers['x-tenant'],
+      };
+    });
+
+    await server.listen({ prefetch: 1 });
+    await client.connect();
+
+    await client.publish(
+      'event.logged',
+      { event: 'user.login' },
+      { headers: { 'x-tenant': 'acme' } },
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(received).toEqual({ content: { event: 'user.login' }, tenant: 'acme' });
+
+    const result = await client.shutdown();
+    expect(result.pendingCount).toBe(0);
+
+    await server.close();
+  });
+
+  it('should throw when client is not connected', async () => {
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'publish-test-2',
+    });
+
+    await expect(client.publish('event.logged', {})).rejects.toThrow(RMQConnectionError);
+  });
+
+  it('should deliver higher priority messages first', async () => {
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'publish-test-3',
+      maxPriority: 10,
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'publish-test-3',
+    });
+
+    const received: { job: string; priority?: number }[] = [];
+    let unblock: () => void = () => {};
+    const blocked = new Promise<void>((resolve) => {
+      unblock = resolve;
+    });
+
+    server.on('job.run', async (context) => {
+      received.push({ job: context.content.job, priority: context.priority });
+      if (context.content.job === 'blocker') await blocked;
+    });
+
+    await server.listen({ prefetch: 1 });
+    await client.connect();
+
+    // Hold the only prefetch slot so the rest queue up on the broker
+    await client.publish('job.run', { job: 'blocker' });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    await client.publish('job.run', { job: 'bulk-1' }, { priority: 1 });
+    await client.publish('job.run', { job: 'bulk-2' }, { priority: 1 });
+    await client.publish('job.run', { job: 'urgent' }, { priority: 9 });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    unblock();
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(received.map((r) => r.job)).toEqual(['blocker', 'urgent', 'bulk-1', 'bulk-2']);
+    expect(received[1].priority).toBe(9);
+
+    await client.close();
+    await server.close();
+  });
+
+  it('should deliver delayed messages once they are due', async () => {
+    const delayed = { buckets: [500, 2000] };
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'publish-test-4',
+      delayed,
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'publish-test-4',
+      delayed,
+    });
+
+    const received: { job: string; elapsed: number }[] = [];
+    const startTime = Date.now();
+    server.on('reminder.send', async (context) => {
+      received.push({ job: context.content.job, elapsed: Date.now() - startTime });
+    });
+
+    await server.listen();
+    await client.connect();
+
+    await client.publish('reminder.send', { job: 'later' }, { delay: 1500 });
+    await client.publish('reminder.send', { job: 'soon' }, { deliverAt: Date.now() + 300 });
+    await client.publish('reminder.send', { job: 'now' });
+
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+
+    expect(received.map((r) => r.job)).toEqual(['now', 'soon', 'later']);
+    expect(received[1].elapsed).toBeGreaterThanOrEqual(300);
+    expect(received[2].elapsed).toBeGreaterThanOrEqual(1500);
+
+    await client.close();
+    await server.close();
+  });
+
+  it('should fall back to TTL queues without the delayed message plugin', async () => {
+    // The test broker runs without rabbitmq_delayed_message_exchange
+    const delayed = { strategy: 'plugin' as const, buckets: [500] };
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const server = new RMQServer({
+      uri: rabbitmqUri,
+      appName: 'publish-test-6',
+      delayed,
+    });
+
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'publish-test-6',
+      delayed,
+    });
+
+    const received: string[] = [];
+    server.on('reminder.send', async (context) => {
+      received.push(context.content.job);
+    });
+    server.on('ping', async (_context, reply) => {
+      reply('pong');
+    });
+
+    await server.listen();
+    await client.connect();
+
+    await client.publish('reminder.send', { job: 'later' }, { delay: 300 });
+    await expect(client.send('ping', {}, { timeout: 5000 })).resolves.toBe('pong');
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    expect(received).toEqual(['later']);
+
+    warnSpy.mockRestore();
+    await client.close();
+    await server.close();
+  });
+
+  it('should reject delays beyond the largest bucket', async () => {
+    const client = new RMQClient({
+      uri: rabbitmqUri,
+      appName: 'publish-test-5',
+      delayed: { buckets: [1000] },
+    });
+    await client.connect();
+
+    await expect(client.publish('reminder.send', {}, { delay: 5000 })).rejects.toThrow(
+      RMQPublishError,
+    );
+
+    await client.close();
+  });
+});
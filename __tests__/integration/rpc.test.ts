@@ -0,0 +1,1059 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  defineContract,
+  RMQAbortError,
+  RMQClient,
+  RMQConnectionError,
+  RMQConnectionManager,
+  RMQHandlerError,
+  RMQRemoteError,
+  RMQServer,
+  RMQTimeoutError,
+  RMQUnroutableError,
+  RMQValidationError,
+  route,
+} from '../../src';
+import { getRabbitMQUri } from '../setup/rabbitmq';
+
+describe('RPC', () => {
+  const rabbitmqUri = getRabbitMQUri();
+
+  afterEach(() => {
+    RMQConnectionManager.resetInstance();
+  });
+
+  describe('Direct reply-to', () => {
+    it('should receive replies via amq.rabbitmq.reply-to', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-direct-reply-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-direct-reply-1',
+        directReplyTo: true,
+      });
+
+      server.on('echo', async (context, reply) => {
+        reply({ echo: context.content });
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const responses = await Promise.all([
+        client.send('echo', { n: 1 }, { timeout: 5000 }),
+        client.send('echo', { n: 2 }, { timeout: 5000 }),
+      ]);
+
+      expect(responses).toEqual([{ echo: { n: 1 } }, { echo: { n: 2 } }]);
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Remote errors', () => {
+    it('should reject with RMQRemoteError when the handler throws', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-remote-error-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-remote-error-1',
+      });
+
+      server.on('user.get', async () => {
+        throw new RMQHandlerError('User not found', { code: 'NOT_FOUND', details: { id: 42 } });
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const error = await client.send('user.get', { id: 42 }, { timeout: null }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RMQRemoteError);
+      expect(error.message).toBe('User not found');
+      expect(error.remoteName).toBe('RMQHandlerError');
+      expect(error.code).toBe('NOT_FOUND');
+      expect(error.details).toEqual({ id: 42 });
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should only reply with an error after the final retry', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-remote-error-2',
+        retryOptions: { enabled: true, maxRetries: 2, retryTTL: 100 },
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-remote-error-2',
+      });
+
+      let attempts = 0;
+      server.on('flaky', async () => {
+        attempts++;
+        throw new Error('Still failing');
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      await expect(client.send('flaky', {}, { timeout: 10000 })).rejects.toThrow(RMQRemoteError);
+      expect(attempts).toBe(3);
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should reject locally and abort the handler signal', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-cancel-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-cancel-1',
+      });
+
+      let handlerAborted = false;
+      let attempts = 0;
+      server.on('export', async (context) => {
+        attempts++;
+        await new Promise<void>((resolve) => {
+          context.signal?.addEventListener('abort', () => resolve());
+        });
+        handlerAborted = true;
+        throw new Error('Aborted');
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const controller = new AbortController();
+      const pending = client.send('export', {}, { timeout: null, signal: controller.signal });
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(RMQAbortError);
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(handlerAborted).toBe(true);
+      // Aborted requests are neither retried nor dead-lettered
+      expect(attempts).toBe(1);
+
+      const result = await client.shutdown();
+      expect(result.pendingCount).toBe(0);
+
+      await server.close();
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-cancel-2',
+      });
+
+      await client.connect();
+
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.send('export', {}, { signal: controller.signal })).rejects.toThrow(
+        RMQAbortError,
+      );
+
+      await client.close();
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should yield chunks written by the handler until end', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-stream-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-stream-1',
+      });
+
+      server.on('export', async (context, reply) => {
+        for (let page = 1; page <= context.content.pages; page++) {
+          reply.write({ page });
+        }
+        reply.end({ done: true });
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const chunks: any[] = [];
+      for await (const chunk of client.stream('export', { pages: 3 }, { timeout: 5000 })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([{ page: 1 }, { page: 2 }, { page: 3 }, { done: true }]);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should throw RMQRemoteError after chunks when the handler fails', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-stream-2',
+        retryOptions: { enabled: true, maxRetries: 3, retryTTL: 100 },
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-stream-2',
+      });
+
+      let attempts = 0;
+      server.on('export', async (_context, reply) => {
+        attempts++;
+        reply.write({ page: 1 });
+        throw new Error('Export failed');
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const chunks: any[] = [];
+      const consume = async () => {
+        for await (const chunk of client.stream('export', {}, { timeout: 5000 })) {
+          chunks.push(chunk);
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(RMQRemoteError);
+      expect(chunks).toEqual([{ page: 1 }]);
+      // Streams are not retried once chunks were sent
+      expect(attempts).toBe(1);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should apply timeout as an idle timeout', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-stream-3',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-stream-3',
+      });
+
+      server.on('progress', async (_context, reply) => {
+        for (let i = 0; i < 3; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          reply.write({ progress: i });
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        reply.end();
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const chunks: any[] = [];
+      const consume = async () => {
+        for await (const chunk of client.stream('progress', {}, { timeout: 500 })) {
+          chunks.push(chunk);
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(RMQTimeoutError);
+      expect(chunks).toHaveLength(3);
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Scatter-gather', () => {
+    it('should collect replies from every instance', async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-gather-1',
+      });
+
+      const servers = ['node-a', 'node-b'].map((instanceId) => {
+        const server = new RMQServer({
+          uri: rabbitmqUri,
+          appName: 'rpc-gather-1',
+          instanceId,
+        });
+        server.on(
+          'cache.stats',
+          async (_context, reply) => {
+            reply({ entries: instanceId === 'node-a' ? 10 : 20 });
+          },
+          { broadcast: true },
+        );
+        return server;
+      });
+
+      for (const server of servers) {
+        await server.listen({ prefetch: 1 });
+      }
+      await client.connect();
+
+      const replies = await client.gather<{ entries: number }>(
+        'cache.stats',
+        {},
+        { window: 2000, expectedReplies: 2 },
+      );
+
+      expect(replies).toHaveLength(2);
+      expect(replies.map((r) => r.instanceId).sort()).toEqual(['node-a', 'node-b']);
+      expect(replies.map((r) => r.content?.entries).sort()).toEqual([10, 20]);
+
+      await client.close();
+      for (const server of servers) {
+        await server.close();
+      }
+    });
+
+    it('should resolve with what arrived when the window elapses', async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-gather-2',
+      });
+
+      await client.connect();
+
+      const startTime = Date.now();
+      const replies = await client.gather('nobody.listens', {}, { window: 300 });
+
+      expect(replies).toEqual([]);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(300);
+
+      await client.close();
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry timed out requests with a stable idempotency key', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-retry-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-retry-1',
+        retry: { maxAttempts: 3, initialDelayMs: 10 },
+      });
+
+      const keys: string[] = [];
+      server.on('lookup', async (context, reply) => {
+        keys.push(context.headers['x-idempotency-key']);
+        // Drop the first attempt to force a client timeout
+        if (keys.length > 1) {
+          reply({ found: true });
+        }
+      });
+
+      await server.listen({ prefetch: 1 });
+      await client.connect();
+
+      const response = await client.send('lookup', {}, { timeout: 300 });
+
+      expect(response).toEqual({ found: true });
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toBeDefined();
+      expect(keys[1]).toBe(keys[0]);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should not retry when retry is disabled for the request', async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-retry-2',
+        retry: { maxAttempts: 3, initialDelayMs: 10 },
+      });
+
+      await client.connect();
+
+      const startTime = Date.now();
+      await expect(
+        client.send('nobody.listens', {}, { timeout: 200, retry: false }),
+      ).rejects.toThrow(RMQTimeoutError);
+      expect(Date.now() - startTime).toBeLessThan(400);
+
+      await client.close();
+    });
+  });
+
+  describe('Mandatory publishing', () => {
+    it('should reject unroutable requests immediately', async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-mandatory-1',
+        mandatory: true,
+      });
+
+      await client.connect();
+
+      const startTime = Date.now();
+      const error = await client.send('nobody.listens', {}, { timeout: 5000 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RMQUnroutableError);
+      expect(error.routingKey).toBe('nobody.listens');
+      expect(Date.now() - startTime).toBeLessThan(1000);
+
+      const result = await client.shutdown();
+      expect(result.pendingCount).toBe(0);
+    });
+
+    it("should emit 'returned' for unroutable fire-and-forget publishes", async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-mandatory-2',
+      });
+
+      await client.connect();
+
+      const returned = new Promise<string>((resolve) => {
+        client.once('returned', (routingKey: string) => resolve(routingKey));
+      });
+
+      await client.publish('nobody.listens', { event: 'lost' }, { mandatory: true });
+
+      await expect(returned).resolves.toBe('nobody.listens');
+
+      await client.close();
+    });
+  });
+
+  describe('Contracts', () => {
+    const parseId = (value: unknown) => {
+      const { id } = value as { id?: unknown };
+      if (typeof id !== 'number') throw new Error('id must be a number');
+      return { id };
+    };
+
+    it('should reject invalid requests without calling the handler', async () => {
+      const contract = defineContract({
+        'user.get': route({ request: parseId }),
+      });
+
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-contract-1',
+        contract,
+        retryOptions: { enabled: true, maxRetries: 3, retryTTL: 100 },
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-contract-1',
+        contract,
+      });
+
+      let calls = 0;
+      server.on('user.get', async (context, reply) => {
+        calls++;
+        reply({ id: context.content.id });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      await expect(client.send('user.get', { id: 1 }, { timeout: 5000 })).resolves.toEqual({
+        id: 1,
+      });
+
+      const error = await client
+        .send('user.get', { id: 'one' } as any, { timeout: 5000 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(RMQRemoteError);
+      expect(error.code).toBe('VALIDATION_FAILED');
+      expect(error.details).toBe('id must be a number');
+      expect(calls).toBe(1);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should reject replies that fail the response validator', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-contract-2',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-contract-2',
+        contract: defineContract({
+          'user.get': route({ response: parseId }),
+        }),
+      });
+
+      server.on('user.get', async (_context, reply) => {
+        reply({ id: 'not-a-number' });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const error = await client.send('user.get', {}, { timeout: 5000 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RMQValidationError);
+      expect(error.routingKey).toBe('user.get');
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Limits', () => {
+    it('should hold requests over the concurrency limit until a slot frees up', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-limits-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-limits-1',
+        concurrency: { enabled: true, maxInFlight: 1 },
+      });
+
+      let active = 0;
+      let maxActive = 0;
+      server.on('slow', async (context, reply) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        active--;
+        reply(context.content);
+      });
+
+      await server.listen({ prefetch: 10 });
+      await client.connect();
+
+      const responses = await Promise.all([
+        client.send('slow', 1, { timeout: 5000 }),
+        client.send('slow', 2, { timeout: 5000 }),
+        client.send('slow', 3, { timeout: 5000 }),
+      ]);
+
+      expect(responses).toEqual([1, 2, 3]);
+      expect(maxActive).toBe(1);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should cancel queued requests on shutdown', async () => {
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-limits-2',
+        concurrency: { enabled: true, maxInFlight: 1 },
+      });
+
+      await client.connect();
+
+      const first = client.send('nobody.listens', {}, { timeout: 5000 }).catch((e) => e);
+      const second = client.send('nobody.listens', {}, { timeout: 5000 }).catch((e) => e);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(client.getLimiterStats()).toEqual({
+        inFlight: 1,
+        waitingForSlot: 1,
+        waitingForRate: 0,
+      });
+
+      const result = await client.shutdown();
+
+      expect(result.pendingCount).toBe(2);
+      expect(await second).toBeInstanceOf(RMQConnectionError);
+      expect(await first).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('Deadlines', () => {
+    it('should expose the caller deadline to handlers', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-deadline-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-deadline-1',
+      });
+
+      server.on('deadline.check', async (context, reply) => {
+        reply({ deadline: context.deadline, remaining: context.timeRemaining?.() });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const sentAt = Date.now();
+      const response = await client.send<{ deadline: number; remaining: number }>(
+        'deadline.check',
+        {},
+        { timeout: 5000 },
+      );
+
+      expect(response.deadline).toBeGreaterThanOrEqual(sentAt + 5000);
+      expect(response.remaining).toBeGreaterThan(0);
+      expect(response.remaining).toBeLessThanOrEqual(5000);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should drop and count requests that arrive after their deadline', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-deadline-2',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-deadline-2',
+      });
+
+      let calls = 0;
+      server.on('deadline.work', async () => {
+        calls++;
+      });
+
+      await server.listen();
+      await client.connect();
+
+      await client.publish('deadline.work', {}, { headers: { 'x-deadline': Date.now() - 1000 } });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      expect(calls).toBe(0);
+      expect(server.getExpiredCount()).toBe(1);
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Reconnects', () => {
+    // Close the shared connection the way a network failure would, triggering a reconnect
+    const dropConnection = async () => {
+      const connection = await RMQConnectionManager.getInstance(rabbitmqUri).getConnection();
+      await connection.close();
+    };
+
+    const createServer = (appName: string) => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName,
+        reconnect: { initialDelayMs: 100, maxDelayMs: 200 },
+      });
+
+      // First delivery never completes, so the broker requeues it when the connection drops
+      let calls = 0;
+      server.on('flaky', async (_context, reply) => {
+        calls++;
+        if (calls === 1) await new Promise(() => {});
+        reply({ ok: true });
+      });
+
+      return server;
+    };
+
+    it("should reject in-flight requests with the 'fail' policy", async () => {
+      const server = createServer('rpc-reconnect-1');
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-reconnect-1',
+        inFlightPolicy: 'fail',
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const pending = client.send('flaky', {}, { timeout: 5000 }).catch((e) => e);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await dropConnection();
+
+      const error = await pending;
+      expect(error).toBeInstanceOf(RMQConnectionError);
+      expect(error.message).toBe('Connection lost: request cancelled');
+
+      await client.close();
+      await server.close();
+    });
+
+    it("should resend in-flight requests with the 'republish' policy", async () => {
+      const server = createServer('rpc-reconnect-2');
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-reconnect-2',
+        inFlightPolicy: 'republish',
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const pending = client.send('flaky', {}, { timeout: 5000 });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await dropConnection();
+
+      await expect(pending).resolves.toEqual({ ok: true });
+
+      await client.close();
+      await server.close();
+    });
+
+    it("should receive replies sent during the outage with the 'stable-queue' policy", async () => {
+      const server = createServer('rpc-reconnect-3');
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-reconnect-3',
+        inFlightPolicy: 'stable-queue',
+        replyQueueExpiresMs: 10000,
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const pending = client.send('flaky', {}, { timeout: 5000 });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await dropConnection();
+
+      await expect(pending).resolves.toEqual({ ok: true });
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Services', () => {
+    it("should send to another service's exchange through one client", async () => {
+      const billing = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-service-billing',
+      });
+      const users = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-service-users',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-service-bff',
+      });
+
+      billing.on('lookup', async (_context, reply) => reply({ from: 'billing' }));
+      users.on('lookup', async (_context, reply) => reply({ from: 'users' }));
+
+      await billing.listen();
+      await users.listen();
+      await client.connect();
+
+      const [invoice, user] = await Promise.all([
+        client.service('rpc-service-billing').send('lookup', {}, { timeout: 5000 }),
+        client.service('rpc-service-users').send('lookup', {}, { timeout: 5000 }),
+      ]);
+
+      expect(invoice).toEqual({ from: 'billing' });
+      expect(user).toEqual({ from: 'users' });
+
+      await client.close();
+      await users.close();
+      await billing.close();
+    });
+
+    it('should validate replies against the service contract', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-service-contract',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-service-bff-2',
+      });
+
+      server.on('count', async (_context, reply) => reply('many'));
+
+      await server.listen();
+      await client.connect();
+
+      const counter = client.service('rpc-service-contract', {
+        contract: defineContract({
+          count: route({
+            response: (value) => {
+              if (typeof value !== 'number') throw new Error('count must be a number');
+              return value;
+            },
+          }),
+        }),
+      });
+
+      await expect(counter.send('count', {}, { timeout: 5000 })).rejects.toThrow(
+        RMQValidationError,
+      );
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Hedging', () => {
+    it('should resolve with the first reply and cancel the slower copy', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-hedge-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-hedge-1',
+      });
+
+      let calls = 0;
+      let slowCopyAborted = false;
+      server.on('quote.get', async (context, reply) => {
+        calls++;
+        if (calls === 1) {
+          // Stuck copy: only finishes when cancelled
+          await new Promise<void>((resolve) => {
+            context.signal?.addEventListener('abort', () => resolve(), { once: true });
+          });
+          slowCopyAborted = true;
+          return;
+        }
+        reply({ price: 42 });
+      });
+
+      await server.listen({ prefetch: 2 });
+      await client.connect();
+
+      const hedges: number[] = [];
+      client.on('hedged', (_routingKey: string, hedge: number) => hedges.push(hedge));
+
+      const startTime = Date.now();
+      const response = await client.send(
+        'quote.get',
+        {},
+        { timeout: 5000, hedge: { delayMs: 100 } },
+      );
+
+      expect(response).toEqual({ price: 42 });
+      expect(Date.now() - startTime).toBeLessThan(1000);
+      expect(hedges).toEqual([1]);
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(slowCopyAborted).toBe(true);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should not hedge when the reply arrives before the delay', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-hedge-2',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-hedge-2',
+      });
+
+      let calls = 0;
+      server.on('quote.get', async (_context, reply) => {
+        calls++;
+        reply({ price: 42 });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      await client.send('quote.get', {}, { timeout: 5000, hedge: { delayMs: 1000, maxHedges: 2 } });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(calls).toBe(1);
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Caching', () => {
+    it('should serve repeated requests from the cache and coalesce concurrent ones', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-cache-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-cache-1',
+        cache: { enabled: true, routes: { 'user.get': 60000 } },
+      });
+
+      let calls = 0;
+      server.on('user.get', async (context, reply) => {
+        calls++;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        reply({ id: context.content.id, calls });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const [first, second] = await Promise.all([
+        client.send('user.get', { id: 1 }, { timeout: 5000 }),
+        client.send('user.get', { id: 1 }, { timeout: 5000 }),
+      ]);
+      const third = await client.send('user.get', { id: 1 }, { timeout: 5000 });
+      const bypassed = await client.send('user.get', { id: 1 }, { timeout: 5000, cache: false });
+
+      expect(first).toEqual({ id: 1, calls: 1 });
+      expect(second).toEqual(first);
+      expect(third).toEqual(first);
+      expect(bypassed).toEqual({ id: 1, calls: 2 });
+
+      await client.send('user.get', { id: 2 }, { timeout: 5000 });
+      expect(calls).toBe(3);
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should honor the TTL hint sent with the reply', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-cache-2',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-cache-2',
+        cache: { enabled: true, routes: { 'price.get': 60000 } },
+      });
+
+      let calls = 0;
+      server.on('price.get', async (_context, reply) => {
+        calls++;
+        reply({ calls }, { cacheTtlMs: 0 });
+      });
+
+      await server.listen();
+      await client.connect();
+
+      await client.send('price.get', {}, { timeout: 5000 });
+      const response = await client.send('price.get', {}, { timeout: 5000 });
+
+      expect(response).toEqual({ calls: 2 });
+
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('Interceptors', () => {
+    it('should let interceptors shape requests and replies', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-interceptors-1',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-interceptors-1',
+      });
+
+      server.on('user.get', async (context, reply) => {
+        reply({ id: context.content.id, tenant: context.headers['x-tenant'] });
+      });
+      server.on('audit.log', async () => {});
+
+      await server.listen();
+      await client.connect();
+
+      const operations: string[] = [];
+      client.use(async (request, next) => {
+        operations.push(request.operation);
+        request.options.headers['x-tenant'] = 'acme';
+        return next();
+      });
+      client.use(async (request, next) => {
+        const response = await next();
+        return request.operation === 'send' ? { ...response, intercepted: true } : response;
+      });
+
+      const headers = { 'x-trace': '1' };
+      const response = await client.send('user.get', { id: 7 }, { timeout: 5000, headers });
+      await client.publish('audit.log', {});
+
+      expect(response).toEqual({ id: 7, tenant: 'acme', intercepted: true });
+      expect(operations).toEqual(['send', 'publish']);
+      // The caller's headers are copied, not changed
+      expect(headers).toEqual({ 'x-trace': '1' });
+
+      await client.close();
+      await server.close();
+    });
+
+    it('should let interceptors handle errors', async () => {
+      const server = new RMQServer({
+        uri: rabbitmqUri,
+        appName: 'rpc-interceptors-2',
+      });
+
+      const client = new RMQClient({
+        uri: rabbitmqUri,
+        appName: 'rpc-interceptors-2',
+      });
+
+      server.on('user.get', async () => {
+        throw new Error('Database unavailable');
+      });
+
+      await server.listen();
+      await client.connect();
+
+      const errors: unknown[] = [];
+      client.use(async (_request, next) => {
+        try {
+          return await next();
+        } catch (error) {
+          errors.push(error);
+          return null;
+        }
+      });
+
+      const response = await client.send('user.get', {}, { timeout: 5000 });
+
+      expect(response).toBeNull();
+      expect(errors[0]).toBeInstanceOf(RMQRemoteError);
+
+      await client.close();
+      await server.close();
+    });
+  });
+});
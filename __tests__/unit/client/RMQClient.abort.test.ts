@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RMQClient } from '../../../src/client/RMQClient';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+import { RMQAbortError } from '../../../src/errors';
+
+describe('RMQClient abort', () => {
+  // A connected client on a fake channel whose target exchange check waits for `declare()`
+  const createClient = () => {
+    const client = new RMQClient({ uri: 'amqp://localhost', appName: 'sim' });
+    let declare: () => void = () => {};
+    const declaration = new Promise<void>((resolve) => {
+      declare = resolve;
+    });
+    const channel = { publish: vi.fn().mockReturnValue(true) };
+    const probe = {
+      on: vi.fn(),
+      checkExchange: vi.fn(() => declaration),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    Object.assign(client as any, { channel, isConnected: true, replyQueue: 'reply-queue' });
+    vi.spyOn((client as any).connectionManager, 'getConnection').mockResolvedValue({
+      createChannel: vi.fn().mockResolvedValue(probe),
+    });
+    return { client, channel, declare };
+  };
+
+  afterEach(() => {
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should not publish a send() aborted while the exchange is declared', async () => {
+    const { client, channel, declare } = createClient();
+    const controller = new AbortController();
+
+    const request = client
+      .service('billing')
+      .send('invoice.get', {}, { signal: controller.signal, timeout: null });
+    controller.abort();
+    declare();
+
+    await expect(request).rejects.toThrow(RMQAbortError);
+    expect(channel.publish).not.toHaveBeenCalled();
+    expect((client as any).pendingRequests.size).toBe(0);
+  });
+
+  it('should not publish a stream() aborted while the exchange is declared', async () => {
+    const { client, channel, declare } = createClient();
+    const controller = new AbortController();
+
+    const iterator = client
+      .service('billing')
+      .stream('report.rows', {}, { signal: controller.signal, timeout: null });
+    const next = iterator.next();
+    await Promise.resolve();
+    controller.abort();
+    declare();
+
+    await expect(next).rejects.toThrow(RMQAbortError);
+    expect(channel.publish).not.toHaveBeenCalled();
+  });
+});
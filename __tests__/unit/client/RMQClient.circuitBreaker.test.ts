@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RMQClient } from '../../../src/client/RMQClient';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+import {
+  RMQAbortError,
+  RMQCircuitOpenError,
+  RMQRemoteError,
+  RMQTimeoutError,
+} from '../../../src/errors';
+
+describe('RMQClient circuit breaker', () => {
+  // A connected client on a fake channel - replies are delivered with `reply()`
+  const createClient = (resetTimeoutMs = 60000) => {
+    const client = new RMQClient({
+      uri: 'amqp://localhost',
+      appName: 'sim',
+      circuitBreaker: { enabled: true, failureThreshold: 2, resetTimeoutMs },
+    });
+    const channel = { publish: vi.fn().mockReturnValue(true) };
+    const probe = {
+      on: vi.fn(),
+      checkExchange: vi.fn().mockResolvedValue({}),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    Object.assign(client as any, { channel, isConnected: true, replyQueue: 'reply-queue' });
+    vi.spyOn((client as any).connectionManager, 'getConnection').mockResolvedValue({
+      createChannel: vi.fn().mockResolvedValue(probe),
+    });
+
+    const reply = (body: unknown, headers: Record<string, unknown> = {}) => {
+      const { correlationId } = channel.publish.mock.lastCall?.[3] ?? {};
+      (client as any).responseEmitter.emit(correlationId, JSON.stringify(body), { headers });
+    };
+    const changes: string[] = [];
+    client.on('circuitStateChange', (routingKey, state, previous) => {
+      changes.push(`${routingKey}: ${previous} -> ${state}`);
+    });
+    return { client, reply, changes };
+  };
+
+  // Let the request reach channel.publish
+  const published = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should open on timeouts and remote errors and fail fast', async () => {
+    const { client, reply, changes } = createClient();
+
+    await expect(client.send('job', {}, { timeout: 5 })).rejects.toThrow(RMQTimeoutError);
+    const remote = client.send('job', {}, { timeout: null });
+    await published();
+    reply({ name: 'Error', message: 'boom' }, { 'x-rpc-error': true });
+    await expect(remote).rejects.toThrow(RMQRemoteError);
+
+    expect(client.getCircuitState('job')).toBe('open');
+    expect(changes).toEqual(['job: closed -> open']);
+    await expect(client.send('job', {})).rejects.toThrow(RMQCircuitOpenError);
+  });
+
+  it('should not count caller-side errors as failures', async () => {
+    const { client } = createClient();
+
+    for (let i = 0; i < 3; i++) {
+      const controller = new AbortController();
+      const request = client.send('job', {}, { signal: controller.signal, timeout: null });
+      await published();
+      controller.abort();
+      await expect(request).rejects.toThrow(RMQAbortError);
+    }
+
+    expect(client.getCircuitState('job')).toBe('closed');
+  });
+
+  it('should track other exchanges under their own key', async () => {
+    const { client, changes } = createClient();
+    const billing = client.service('billing');
+
+    await expect(billing.send('job', {}, { timeout: 5 })).rejects.toThrow(RMQTimeoutError);
+    await expect(billing.send('job', {}, { timeout: 5 })).rejects.toThrow(RMQTimeoutError);
+
+    expect(client.getCircuitState('job', 'billing')).toBe('open');
+    expect(client.getCircuitState('job')).toBe('closed');
+    expect(changes).toEqual(['billing:job: closed -> open']);
+  });
+
+  it('should not let a trial that never settles keep the circuit half-open', async () => {
+    const { client, reply } = createClient(20);
+
+    await expect(client.send('job', {}, { timeout: 5 })).rejects.toThrow(RMQTimeoutError);
+    await expect(client.send('job', {}, { timeout: 5 })).rejects.toThrow(RMQTimeoutError);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    // The trial goes to a dead consumer without a timeout
+    client.send('job', {}, { timeout: null }).catch(() => {});
+    await published();
+    await expect(client.send('job', {})).rejects.toThrow(RMQCircuitOpenError);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const trial = client.send('job', {}, { timeout: 1000 });
+    await published();
+    reply('ok');
+
+    await expect(trial).resolves.toBe('ok');
+    expect(client.getCircuitState('job')).toBe('closed');
+    (client as any).rejectPending(new Error('done'));
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+import { RMQClient } from '../../../src/client/RMQClient';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+import { RMQConnectionError } from '../../../src/errors/ConnectionError';
+
+describe('RMQClient offline buffer', () => {
+  let consoleInfoSpy: MockInstance;
+
+  // A connected client on a fake channel - nothing reaches a broker
+  const createClient = () => {
+    const client = new RMQClient({
+      uri: 'amqp://localhost',
+      appName: 'sim',
+      offlineBuffer: { enabled: true },
+    });
+    const channel = {
+      publish: vi.fn().mockReturnValue(true),
+      assertExchange: vi.fn().mockResolvedValue({}),
+    };
+    Object.assign(client as any, { channel, isConnected: true, replyQueue: 'reply-queue' });
+    const manager = (client as any).connectionManager as RMQConnectionManager;
+    return { client, channel, manager };
+  };
+
+  beforeEach(() => {
+    consoleInfoSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleInfoSpy.mockRestore();
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should buffer while channels are recreated after the connection is back', async () => {
+    const { client, channel, manager } = createClient();
+
+    manager.emit('disconnected');
+    // The manager reports 'connected' before recreating channels and emitting 'reconnected'
+    (manager as any).state = 'connected';
+
+    const published = client.publish('job', { id: 1 });
+    expect(client.getBufferedCount()).toBe(1);
+
+    manager.emit('reconnected');
+    await published;
+
+    expect(client.getBufferedCount()).toBe(0);
+    expect(channel.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush buffered send() and publish() calls in order', async () => {
+    const { client, channel, manager } = createClient();
+
+    manager.emit('disconnected');
+    const sent = client.send('first-send', {}, { timeout: null });
+    const published = client.publish('second-publish', {});
+    expect(client.getBufferedCount()).toBe(2);
+
+    manager.emit('reconnected');
+    // Called after the flush started, so it queues behind the buffered calls
+    const later = client.publish('third-publish', {});
+    await Promise.all([published, later]);
+
+    const routingKeys = channel.publish.mock.calls.map((call) => call[1]);
+    expect(routingKeys).toEqual(['first-send', 'second-publish', 'third-publish']);
+    expect((client as any).pendingRequests.size).toBe(1);
+    (client as any).rejectPending(new Error('done'));
+    await expect(sent).rejects.toThrow('done');
+  });
+
+  it('should stop buffering once reconnecting has given up', async () => {
+    const { client, manager } = createClient();
+    client.on('error', () => {});
+
+    manager.emit('disconnected');
+    manager.emit('error', new Error('Max reconnection attempts (3) reached'));
+
+    await expect(client.publish('job', { id: 1 })).rejects.toThrow(RMQConnectionError);
+    expect(client.getBufferedCount()).toBe(0);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RMQClient } from '../../../src/client/RMQClient';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+
+describe('RMQClient message serialization', () => {
+  // A connected client on a fake channel - nothing reaches a broker
+  const createClient = () => {
+    const client = new RMQClient({ uri: 'amqp://localhost', appName: 'sim' });
+    const channel = { publish: vi.fn().mockReturnValue(true) };
+    Object.assign(client as any, { channel, isConnected: true, replyQueue: 'reply-queue' });
+    return { client, channel };
+  };
+
+  afterEach(() => {
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should leave no pending request behind when send() cannot serialize the message', async () => {
+    const { client, channel } = createClient();
+
+    await expect(client.send('job', { n: 10n }, { timeout: null })).rejects.toThrow(TypeError);
+
+    expect(channel.publish).not.toHaveBeenCalled();
+    expect((client as any).pendingRequests.size).toBe(0);
+  });
+
+  it('should leave no pending request behind when gather() cannot serialize the message', async () => {
+    const { client } = createClient();
+
+    await expect(client.gather('job', { n: 10n })).rejects.toThrow(TypeError);
+
+    expect((client as any).pendingRequests.size).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RMQClient } from '../../../src/client/RMQClient';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+import { RMQPublishError, RMQValidationError } from '../../../src/errors';
+import type { RMQClientOptions } from '../../../src/interfaces/client';
+
+describe('RMQClient service exchanges', () => {
+  // A connected client on a fake channel; target exchanges are checked on a probe channel
+  const createClient = (exists: boolean, options: Partial<RMQClientOptions> = {}) => {
+    const client = new RMQClient({ uri: 'amqp://localhost', appName: 'sim', ...options });
+    const channel = {
+      publish: vi.fn().mockReturnValue(true),
+      assertExchange: vi.fn().mockResolvedValue({}),
+    };
+    const probe = {
+      on: vi.fn(),
+      checkExchange: vi.fn(async () => {
+        if (!exists) throw new Error("NOT_FOUND - no exchange 'billing'");
+      }),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    Object.assign(client as any, { channel, isConnected: true, replyQueue: 'reply-queue' });
+    vi.spyOn((client as any).connectionManager, 'getConnection').mockResolvedValue({
+      createChannel: vi.fn().mockResolvedValue(probe),
+    });
+    const reply = (body: unknown) => {
+      const { correlationId } = channel.publish.mock.lastCall?.[3] ?? {};
+      (client as any).responseEmitter.emit(correlationId, JSON.stringify(body), { headers: {} });
+    };
+    return { client, channel, probe, reply };
+  };
+
+  // Let the request reach channel.publish
+  const published = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should check an undeclared target exchange instead of asserting it', async () => {
+    const { client, channel, probe } = createClient(true);
+
+    await client.service('billing').publish('invoice.paid', {});
+    await client.service('billing').publish('invoice.paid', {});
+
+    expect(channel.assertExchange).not.toHaveBeenCalled();
+    expect(probe.checkExchange).toHaveBeenCalledTimes(1);
+    expect(channel.publish).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject without touching the shared channel when the exchange is missing', async () => {
+    const { client, channel } = createClient(false);
+
+    await expect(client.service('billing').publish('invoice.paid', {})).rejects.toThrow(
+      RMQPublishError,
+    );
+    expect(channel.assertExchange).not.toHaveBeenCalled();
+    expect(channel.publish).not.toHaveBeenCalled();
+  });
+
+  it('should assert the target exchange when service() declares it', async () => {
+    const { client, channel, probe } = createClient(false);
+
+    await client.service('reports', { exchangeType: 'topic' }).publish('report.done', {});
+
+    expect(channel.assertExchange).toHaveBeenCalledWith('reports', 'topic', { durable: true });
+    expect(probe.checkExchange).not.toHaveBeenCalled();
+  });
+
+  it('should validate replies of a service contract before caching them', async () => {
+    const { client, channel, reply } = createClient(true, {
+      cache: { enabled: true, routes: { 'billing:invoice.get': 60000 } },
+    });
+    const billing = client.service('billing', {
+      contract: {
+        'invoice.get': {
+          response: (value: any) => {
+            if (typeof value?.id !== 'number') throw new Error('id is required');
+            return value as { id: number };
+          },
+        },
+      },
+    });
+
+    const invalid = billing.send('invoice.get', {}, { timeout: null });
+    await published();
+    reply({});
+    await expect(invalid).rejects.toThrow(RMQValidationError);
+
+    const valid = billing.send('invoice.get', {}, { timeout: null });
+    await published();
+    reply({ id: 1 });
+    await expect(valid).resolves.toEqual({ id: 1 });
+
+    await expect(billing.send('invoice.get', {})).resolves.toEqual({ id: 1 });
+    expect(channel.publish).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RMQClient } from '../../../src/client/RMQClient';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+import { RMQRemoteError } from '../../../src/errors';
+
+describe('RMQClient stream interceptors', () => {
+  // A connected client on a fake channel - frames are delivered with `frame()`
+  const createClient = () => {
+    const client = new RMQClient({ uri: 'amqp://localhost', appName: 'sim' });
+    const channel = {
+      publish: vi.fn().mockReturnValue(true),
+      assertExchange: vi.fn().mockResolvedValue({}),
+    };
+    Object.assign(client as any, { channel, isConnected: true, replyQueue: 'reply-queue' });
+
+    const frame = (body: unknown, headers: Record<string, unknown>) => {
+      const { correlationId } = channel.publish.mock.lastCall?.[3] ?? {};
+      (client as any).responseEmitter.emit(correlationId, JSON.stringify(body), { headers });
+    };
+    return { client, channel, frame };
+  };
+
+  // Let the request reach channel.publish
+  const published = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  afterEach(() => {
+    RMQConnectionManager.resetInstance();
+  });
+
+  it('should not publish when an interceptor skips next()', async () => {
+    const { client, channel } = createClient();
+    client.use(async () => undefined);
+
+    const chunks: unknown[] = [];
+    for await (const chunk of client.stream('report.rows', {})) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([]);
+    expect(channel.publish).not.toHaveBeenCalled();
+  });
+
+  it('should settle next() once the stream has ended', async () => {
+    const { client, frame } = createClient();
+    const events: string[] = [];
+    client.use(async (_request, next) => {
+      events.push('start');
+      await next();
+      events.push('ended');
+    });
+
+    const iterator = client.stream('report.rows', {}, { timeout: null });
+    const first = iterator.next();
+    await published();
+    frame(1, { 'x-stream': 'data' });
+    await expect(first).resolves.toEqual({ value: 1, done: false });
+    await published();
+    expect(events).toEqual(['start']);
+
+    frame(null, { 'x-stream': 'end' });
+    await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+    expect(events).toEqual(['start', 'ended']);
+  });
+
+  it('should reject next() with the stream error', async () => {
+    const { client, frame } = createClient();
+    const errors: unknown[] = [];
+    client.use(async (_request, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        errors.push(error);
+        throw error;
+      }
+    });
+
+    const iterator = client.stream('report.rows', {}, { timeout: null });
+    const first = iterator.next();
+    await published();
+    frame({ name: 'Error', message: 'boom' }, { 'x-rpc-error': true });
+
+    await expect(first).rejects.toThrow(RMQRemoteError);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(RMQRemoteError);
+  });
+});
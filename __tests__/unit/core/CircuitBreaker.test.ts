@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../../../src/core/CircuitBreaker';
+import { DEFAULT_CIRCUIT_BREAKER_OPTIONS } from '../../../src/interfaces/client';
+
+describe('CircuitBreaker', () => {
+  let onStateChange: ReturnType<typeof vi.fn>;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onStateChange = vi.fn();
+    breaker = new CircuitBreaker(
+      {
+        ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+        enabled: true,
+        failureThreshold: 2,
+        resetTimeoutMs: 1000,
+      },
+      onStateChange,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const fail = (key: string) => {
+    expect(breaker.tryAcquire(key)).toBe(true);
+    breaker.record(key, 'failure');
+  };
+
+  it('should open after consecutive failures', () => {
+    fail('user.get');
+    expect(breaker.getState('user.get')).toBe('closed');
+
+    fail('user.get');
+    expect(breaker.getState('user.get')).toBe('open');
+    expect(breaker.tryAcquire('user.get')).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith('user.get', 'open', 'closed');
+  });
+
+  it('should reset the failure count on success', () => {
+    fail('user.get');
+    breaker.tryAcquire('user.get');
+    breaker.record('user.get', 'success');
+    fail('user.get');
+
+    expect(breaker.getState('user.get')).toBe('closed');
+  });
+
+  it('should track routing keys independently', () => {
+    fail('user.get');
+    fail('user.get');
+
+    expect(breaker.tryAcquire('user.get')).toBe(false);
+    expect(breaker.tryAcquire('order.get')).toBe(true);
+  });
+
+  it('should allow a single trial request when half-open', () => {
+    fail('user.get');
+    fail('user.get');
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState('user.get')).toBe('half-open');
+
+    expect(breaker.tryAcquire('user.get')).toBe(true);
+    expect(breaker.tryAcquire('user.get')).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith('user.get', 'half-open', 'open');
+  });
+
+  it('should close when the trial request succeeds', () => {
+    fail('user.get');
+    fail('user.get');
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire('user.get');
+    breaker.record('user.get', 'success');
+
+    expect(breaker.getState('user.get')).toBe('closed');
+    expect(onStateChange).toHaveBeenLastCalledWith('user.get', 'closed', 'half-open');
+  });
+
+  it('should reopen when the trial request fails', () => {
+    fail('user.get');
+    fail('user.get');
+    vi.advanceTimersByTime(1000);
+
+    fail('user.get');
+
+    expect(breaker.getState('user.get')).toBe('open');
+    expect(breaker.tryAcquire('user.get')).toBe(false);
+  });
+
+  it('should release the trial slot on ignored outcomes', () => {
+    fail('user.get');
+    fail('user.get');
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire('user.get');
+    breaker.record('user.get', 'ignored');
+
+    expect(breaker.getState('user.get')).toBe('half-open');
+    expect(breaker.tryAcquire('user.get')).toBe(true);
+  });
+
+  it('should free a trial slot that has no outcome after resetTimeoutMs', () => {
+    fail('user.get');
+    fail('user.get');
+    vi.advanceTimersByTime(1000);
+
+    // A trial that never settles, e.g. sent without a timeout to a dead consumer
+    expect(breaker.tryAcquire('user.get')).toBe(true);
+    vi.advanceTimersByTime(999);
+    expect(breaker.tryAcquire('user.get')).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.tryAcquire('user.get')).toBe(true);
+    expect(breaker.getState('user.get')).toBe('half-open');
+  });
+});
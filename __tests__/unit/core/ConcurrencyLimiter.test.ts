@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { ConcurrencyLimiter } from '../../../src/core/ConcurrencyLimiter';
+import { RMQAbortError, RMQConnectionError, RMQLimitExceededError } from '../../../src/errors';
+import {
+  type ConcurrencyLimitOptions,
+  DEFAULT_CONCURRENCY_LIMIT_OPTIONS,
+} from '../../../src/interfaces/client';
+
+describe('ConcurrencyLimiter', () => {
+  const createLimiter = (options: Partial<ConcurrencyLimitOptions> = {}) =>
+    new ConcurrencyLimiter({ ...DEFAULT_CONCURRENCY_LIMIT_OPTIONS, enabled: true, ...options });
+
+  const isSettled = async (promise: Promise<unknown>) => {
+    let settled = false;
+    promise.then(
+      () => {
+        settled = true;
+      },
+      () => {
+        settled = true;
+      },
+    );
+    await Promise.resolve();
+    return settled;
+  };
+
+  it('should queue requests over the global limit in order', async () => {
+    const limiter = createLimiter({ maxInFlight: 1 });
+
+    const release = await limiter.acquire('a');
+    const second = limiter.acquire('b');
+    const third = limiter.acquire('c');
+
+    expect(limiter.active).toBe(1);
+    expect(limiter.queueLength).toBe(2);
+    expect(await isSettled(second)).toBe(false);
+
+    release();
+    const releaseSecond = await second;
+    expect(await isSettled(third)).toBe(false);
+
+    releaseSecond();
+    await third;
+    expect(limiter.queueLength).toBe(0);
+  });
+
+  it('should not let a key at its limit block other keys', async () => {
+    const limiter = createLimiter({ maxInFlight: 10, maxInFlightPerKey: 1 });
+
+    await limiter.acquire('a');
+    const blocked = limiter.acquire('a');
+
+    await expect(limiter.acquire('b')).resolves.toBeTypeOf('function');
+    expect(await isSettled(blocked)).toBe(false);
+  });
+
+  it('should ignore repeated releases', async () => {
+    const limiter = createLimiter({ maxInFlight: 2 });
+
+    const release = await limiter.acquire('a');
+    await limiter.acquire('a');
+    release();
+    release();
+
+    expect(limiter.active).toBe(1);
+  });
+
+  it("should reject immediately with behavior 'reject'", async () => {
+    const limiter = createLimiter({ maxInFlight: 1, behavior: 'reject' });
+
+    await limiter.acquire('a');
+    const error = await limiter.acquire('a').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RMQLimitExceededError);
+    expect(error.limit).toBe('concurrency');
+    expect(error.routingKey).toBe('a');
+  });
+
+  it('should reject when the wait queue is full', async () => {
+    const limiter = createLimiter({ maxInFlight: 1, maxQueueSize: 1 });
+
+    await limiter.acquire('a');
+    limiter.acquire('a');
+
+    await expect(limiter.acquire('a')).rejects.toThrow(RMQLimitExceededError);
+  });
+
+  it('should remove aborted waiters from the queue', async () => {
+    const limiter = createLimiter({ maxInFlight: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire('a');
+    const waiting = limiter.acquire('a', controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(RMQAbortError);
+    expect(limiter.queueLength).toBe(0);
+  });
+
+  it('should reject all waiters on clear', async () => {
+    const limiter = createLimiter({ maxInFlight: 1 });
+
+    await limiter.acquire('a');
+    const waiting = limiter.acquire('a');
+
+    expect(limiter.clear(new RMQConnectionError('shutdown'))).toBe(1);
+    await expect(waiting).rejects.toThrow('shutdown');
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  HandlerRegistry,
+  isWildcardPattern,
+  matchesHeaders,
+  toBindingKey,
+} from '../../../src/core/HandlerRegistry';
+
+describe('HandlerRegistry', () => {
+  const createRegistry = (...patterns: string[]) => {
+    const registry = new HandlerRegistry();
+    for (const pattern of patterns) {
+      registry.register(pattern, vi.fn());
+    }
+    return registry;
+  };
+
+  it('should detect wildcard patterns', () => {
+    expect(isWildcardPattern('order.*.created')).toBe(true);
+    expect(isWildcardPattern('audit.#')).toBe(true);
+    expect(isWildcardPattern('order.created')).toBe(false);
+    expect(isWildcardPattern('order.c*')).toBe(false);
+    expect(isWildcardPattern('tenant.:tenantId')).toBe(true);
+    expect(isWildcardPattern('tenant.:')).toBe(false);
+  });
+
+  it('should bind named parameters as *', () => {
+    expect(toBindingKey('tenant.:tenantId.invoice.:event')).toBe('tenant.*.invoice.*');
+    expect(toBindingKey('audit.#')).toBe('audit.#');
+  });
+
+  it('should capture named parameters', () => {
+    const registry = createRegistry('tenant.:tenantId.invoice.:event');
+
+    expect(registry.match('tenant.acme.invoice.paid')).toMatchObject({
+      pattern: 'tenant.:tenantId.invoice.:event',
+      wildcards: ['acme', 'paid'],
+      params: { tenantId: 'acme', event: 'paid' },
+    });
+    expect(registry.match('tenant.acme.invoice')).toBeUndefined();
+  });
+
+  it('should line up parameters with other wildcards', () => {
+    const registry = createRegistry('#.tenant.:tenantId.*');
+
+    expect(registry.match('eu.west.tenant.acme.created')).toMatchObject({
+      wildcards: ['eu.west', 'acme', 'created'],
+      params: { tenantId: 'acme' },
+    });
+  });
+
+  it('should reject patterns that bind the same as a registered one', () => {
+    const registry = createRegistry('tenant.:tenantId');
+
+    expect(() => registry.register('tenant.:id', vi.fn())).toThrow(/conflicts/);
+    expect(() => registry.register('tenant.*', vi.fn())).toThrow(/conflicts/);
+    expect(() => registry.register('tenant.:tenantId', vi.fn())).not.toThrow();
+  });
+
+  it('should match exact routing keys without wildcards', () => {
+    const registry = createRegistry('order.created');
+
+    expect(registry.match('order.created')).toMatchObject({
+      pattern: 'order.created',
+      wildcards: [],
+    });
+    expect(registry.match('order.updated')).toBeUndefined();
+  });
+
+  it('should match * against exactly one word', () => {
+    const registry = createRegistry('order.*.created');
+
+    expect(registry.match('order.eu.created')).toMatchObject({
+      pattern: 'order.*.created',
+      wildcards: ['eu'],
+    });
+    expect(registry.match('order.created')).toBeUndefined();
+    expect(registry.match('order.eu.west.created')).toBeUndefined();
+  });
+
+  it('should match # against zero or more words', () => {
+    const registry = createRegistry('audit.#');
+
+    expect(registry.match('audit')?.wildcards).toEqual(['']);
+    expect(registry.match('audit.login')?.wildcards).toEqual(['login']);
+    expect(registry.match('audit.user.login')?.wildcards).toEqual(['user.login']);
+    expect(registry.match('order.created')).toBeUndefined();
+  });
+
+  it('should match # in the middle of a pattern', () => {
+    const registry = createRegistry('audit.#.failed');
+
+    expect(registry.match('audit.failed')?.wildcards).toEqual(['']);
+    expect(registry.match('audit.user.login.failed')?.wildcards).toEqual(['user.login']);
+    expect(registry.match('audit.user.login')).toBeUndefined();
+  });
+
+  it('should resolve the most specific handler', () => {
+    const registry = createRegistry('#', 'order.#', 'order.*.created', 'order.eu.created');
+
+    expect(registry.match('order.eu.created')?.pattern).toBe('order.eu.created');
+    expect(registry.match('order.us.created')?.pattern).toBe('order.*.created');
+    expect(registry.match('order.us.shipped')?.pattern).toBe('order.#');
+    expect(registry.match('invoice.paid')?.pattern).toBe('#');
+  });
+
+  it('should backtrack when a more specific branch does not match', () => {
+    const registry = createRegistry('order.eu.shipped', 'order.*.created');
+
+    expect(registry.match('order.eu.created')).toMatchObject({
+      pattern: 'order.*.created',
+      wildcards: ['eu'],
+    });
+  });
+
+  it('should only match handlers the filter accepts', () => {
+    const registry = new HandlerRegistry();
+    registry.register('cache.#', vi.fn(), { broadcast: true });
+    registry.register('cache.stats', vi.fn());
+    registry.register('cache.*', vi.fn());
+    const broadcast = ({ options }: { options: { broadcast?: boolean } }) => !!options.broadcast;
+
+    expect(registry.match('cache.stats', broadcast)?.pattern).toBe('cache.#');
+    expect(registry.match('cache.stats', (handler) => !broadcast(handler))?.pattern).toBe(
+      'cache.stats',
+    );
+    expect(registry.match('cache.flush', (handler) => !broadcast(handler))?.pattern).toBe(
+      'cache.*',
+    );
+    expect(registry.match('cache.a.b', (handler) => !broadcast(handler))).toBeUndefined();
+  });
+
+  it('should match headers like a headers exchange binding', () => {
+    const binding = { bindingHeaders: { format: 'pdf', region: 'eu', 'x-tenant': 'a' } };
+
+    expect(matchesHeaders(binding, { format: 'pdf', region: 'eu' })).toBe(true);
+    expect(matchesHeaders(binding, { format: 'pdf' })).toBe(false);
+    expect(matchesHeaders({ ...binding, headersMatch: 'any' }, { format: 'pdf' })).toBe(true);
+    expect(matchesHeaders({ ...binding, headersMatch: 'any' }, { 'x-tenant': 'a' })).toBe(false);
+  });
+
+  it('should match handlers by headers, preferring the routing key', () => {
+    const registry = new HandlerRegistry();
+    registry.register('report.csv', vi.fn(), { bindingHeaders: { format: 'csv' } });
+    registry.register('report.any', vi.fn(), {
+      bindingHeaders: { format: 'pdf', region: 'eu' },
+      headersMatch: 'any',
+    });
+    registry.register('report.pdf', vi.fn(), { bindingHeaders: { format: 'pdf' } });
+
+    expect(registry.matchHeaders('report', { format: 'csv' })?.pattern).toBe('report.csv');
+    expect(registry.matchHeaders('report', { format: 'pdf' })?.pattern).toBe('report.any');
+    expect(registry.matchHeaders('report.pdf', { format: 'pdf' })?.pattern).toBe('report.pdf');
+    expect(registry.matchHeaders('report.csv', { format: 'pdf' })?.pattern).toBe('report.any');
+    expect(registry.matchHeaders('report', { format: 'xml' })).toBeUndefined();
+  });
+
+  it('should list registered patterns as routing keys', () => {
+    const registry = createRegistry('order.created', 'audit.#');
+
+    expect(registry.getRoutingKeys()).toEqual(['order.created', 'audit.#']);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OfflineBuffer } from '../../../src/core/OfflineBuffer';
+import { RMQPublishError, RMQTimeoutError } from '../../../src/errors';
+import {
+  DEFAULT_OFFLINE_BUFFER_OPTIONS,
+  type OfflineBufferOptions,
+} from '../../../src/interfaces/client';
+
+describe('OfflineBuffer', () => {
+  const createBuffer = (options: Partial<OfflineBufferOptions> = {}) =>
+    new OfflineBuffer({ ...DEFAULT_OFFLINE_BUFFER_OPTIONS, enabled: true, ...options });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should replay operations in order on flush', async () => {
+    const buffer = createBuffer();
+    const calls: number[] = [];
+
+    const first = buffer.enqueue(async () => {
+      calls.push(1);
+      return 'a';
+    });
+    const second = buffer.enqueue(async () => {
+      calls.push(2);
+      return 'b';
+    });
+
+    expect(buffer.size).toBe(2);
+    expect(calls).toEqual([]);
+
+    buffer.flush();
+
+    await expect(first).resolves.toBe('a');
+    await expect(second).resolves.toBe('b');
+    expect(calls).toEqual([1, 2]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('should start each operation once the previous one has dispatched', async () => {
+    const buffer = createBuffer();
+    const calls: string[] = [];
+    let dispatchFirst: () => void = () => {};
+
+    // Dispatches when told to and never settles, like a request awaiting its reply
+    buffer.enqueue(
+      (dispatched) =>
+        new Promise(() => {
+          calls.push('first');
+          dispatchFirst = dispatched;
+        }),
+    );
+    const second = buffer.enqueue(async () => {
+      calls.push('second');
+    });
+
+    buffer.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['first']);
+    expect(buffer.isFlushing).toBe(true);
+
+    dispatchFirst();
+    await second;
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should replay operations enqueued while flushing after the buffered ones', async () => {
+    const buffer = createBuffer();
+    const calls: number[] = [];
+
+    const first = buffer.enqueue(async () => {
+      calls.push(1);
+    });
+    const flushed = buffer.flush();
+    const second = buffer.enqueue(async () => {
+      calls.push(2);
+    });
+
+    await Promise.all([first, second, flushed]);
+    expect(calls).toEqual([1, 2]);
+    expect(buffer.isFlushing).toBe(false);
+  });
+
+  it('should propagate operation failures to the caller', async () => {
+    const buffer = createBuffer();
+    const pending = buffer.enqueue(async () => {
+      throw new Error('publish failed');
+    });
+
+    buffer.flush();
+
+    await expect(pending).rejects.toThrow('publish failed');
+  });
+
+  it("should reject new operations when full with 'reject-new'", async () => {
+    const buffer = createBuffer({ maxSize: 1, overflow: 'reject-new' });
+    const operation = vi.fn().mockResolvedValue(undefined);
+
+    const first = buffer.enqueue(operation);
+    await expect(buffer.enqueue(operation)).rejects.toThrow(RMQPublishError);
+
+    buffer.flush();
+    await first;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop the oldest operation when full with 'drop-oldest'", async () => {
+    const buffer = createBuffer({ maxSize: 1, overflow: 'drop-oldest' });
+
+    const first = buffer.enqueue(async () => 'first');
+    const second = buffer.enqueue(async () => 'second');
+
+    await expect(first).rejects.toThrow(RMQPublishError);
+
+    buffer.flush();
+    await expect(second).resolves.toBe('second');
+  });
+
+  it('should expire operations older than maxAgeMs', async () => {
+    const buffer = createBuffer({ maxAgeMs: 1000 });
+    const operation = vi.fn().mockResolvedValue(undefined);
+
+    const pending = buffer.enqueue(operation);
+    vi.advanceTimersByTime(1000);
+
+    await expect(pending).rejects.toThrow(RMQTimeoutError);
+    expect(buffer.size).toBe(0);
+
+    buffer.flush();
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should reject all operations on clear', async () => {
+    const buffer = createBuffer();
+
+    const first = buffer.enqueue(async () => undefined);
+    const second = buffer.enqueue(async () => undefined);
+
+    expect(buffer.clear(new Error('shutdown'))).toBe(2);
+    await expect(first).rejects.toThrow('shutdown');
+    await expect(second).rejects.toThrow('shutdown');
+  });
+});
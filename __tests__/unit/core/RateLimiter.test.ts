@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../../../src/core/RateLimiter';
+import { RMQAbortError, RMQConnectionError, RMQLimitExceededError } from '../../../src/errors';
+import { DEFAULT_RATE_LIMIT_OPTIONS, type RateLimitOptions } from '../../../src/interfaces/client';
+
+describe('RateLimiter', () => {
+  const createLimiter = (options: Partial<RateLimitOptions> = {}) =>
+    new RateLimiter({
+      ...DEFAULT_RATE_LIMIT_OPTIONS,
+      enabled: true,
+      ratePerSecond: 10,
+      burst: 2,
+      ...options,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow a burst, then release waiters at the configured rate', async () => {
+    const limiter = createLimiter();
+    const granted: number[] = [];
+
+    await limiter.acquire('a');
+    await limiter.acquire('a');
+    limiter.acquire('a').then(() => granted.push(3));
+    limiter.acquire('a').then(() => granted.push(4));
+
+    expect(limiter.queueLength).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(granted).toEqual([3]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(granted).toEqual([3, 4]);
+    expect(limiter.queueLength).toBe(0);
+  });
+
+  it('should refill up to the burst size', async () => {
+    const limiter = createLimiter();
+
+    await limiter.acquire('a');
+    await limiter.acquire('a');
+    vi.advanceTimersByTime(10000);
+
+    await limiter.acquire('a');
+    await limiter.acquire('a');
+    limiter.acquire('a');
+
+    expect(limiter.queueLength).toBe(1);
+  });
+
+  it("should reject immediately with behavior 'reject'", async () => {
+    const limiter = createLimiter({ burst: 1, behavior: 'reject' });
+
+    await limiter.acquire('a');
+    const error = await limiter.acquire('a').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RMQLimitExceededError);
+    expect(error.limit).toBe('rate');
+  });
+
+  it('should reject when the wait queue is full', async () => {
+    const limiter = createLimiter({ burst: 1, maxQueueSize: 1 });
+
+    await limiter.acquire('a');
+    limiter.acquire('a');
+
+    await expect(limiter.acquire('a')).rejects.toThrow(RMQLimitExceededError);
+  });
+
+  it('should remove aborted waiters from the queue', async () => {
+    const limiter = createLimiter({ burst: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire('a');
+    const waiting = limiter.acquire('a', controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(RMQAbortError);
+    expect(limiter.queueLength).toBe(0);
+  });
+
+  it('should reject all waiters on clear', async () => {
+    const limiter = createLimiter({ burst: 1 });
+
+    await limiter.acquire('a');
+    const waiting = limiter.acquire('a');
+
+    expect(limiter.clear(new RMQConnectionError('shutdown'))).toBe(1);
+    await expect(waiting).rejects.toThrow('shutdown');
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LRUCacheStore } from '../../../src/core/LRUCacheStore';
+import { ReplyCache } from '../../../src/core/ReplyCache';
+import { type CacheOptions, DEFAULT_CACHE_OPTIONS } from '../../../src/interfaces/client';
+
+describe('LRUCacheStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire entries after their TTL', () => {
+    const store = new LRUCacheStore(10);
+
+    store.set('a', 1, 100);
+    expect(store.get('a')).toBe(1);
+
+    vi.advanceTimersByTime(100);
+    expect(store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry once full', () => {
+    const store = new LRUCacheStore(2);
+
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    store.get('a');
+    store.set('c', 3, 1000);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+  });
+});
+
+describe('ReplyCache', () => {
+  const createCache = (options: Partial<CacheOptions> = {}) =>
+    new ReplyCache({
+      ...DEFAULT_CACHE_OPTIONS,
+      enabled: true,
+      routes: { 'user.get': 1000 },
+      ...options,
+    });
+
+  it('should only report a TTL for configured routes', () => {
+    const cache = createCache();
+
+    expect(cache.ttlFor('user.get')).toBe(1000);
+    expect(cache.ttlFor('user.update')).toBeUndefined();
+    expect(cache.ttlFor('toString')).toBeUndefined();
+  });
+
+  it('should derive the same key regardless of property order', () => {
+    const cache = createCache();
+
+    expect(cache.keyFor('user.get', { id: 1, fields: ['name'] })).toBe(
+      cache.keyFor('user.get', { fields: ['name'], id: 1 }),
+    );
+    expect(cache.keyFor('user.get', { id: 1 })).not.toBe(cache.keyFor('user.get', { id: 2 }));
+    expect(cache.keyFor('user.get', { id: 1 })).not.toBe(cache.keyFor('user.list', { id: 1 }));
+  });
+
+  it('should derive different keys for different headers', () => {
+    const cache = createCache();
+
+    expect(cache.keyFor('user.get', { id: 1 }, { tenant: 'a' })).not.toBe(
+      cache.keyFor('user.get', { id: 1 }, { tenant: 'b' }),
+    );
+    expect(cache.keyFor('user.get', { id: 1 }, { tenant: 'a' })).not.toBe(
+      cache.keyFor('user.get', { id: 1 }),
+    );
+    expect(cache.keyFor('user.get', { id: 1 }, {})).toBe(cache.keyFor('user.get', { id: 1 }));
+  });
+
+  it('should share one in-flight load between identical requests', async () => {
+    const cache = createCache();
+    let resolveLoad: (value: string) => void = () => {};
+    const load = vi.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveLoad = resolve;
+        }),
+    );
+
+    const first = cache.coalesce('k', load);
+    const second = cache.coalesce('k', load);
+    resolveLoad('reply');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['reply', 'reply']);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await cache.coalesce('k', async () => 'next');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand out copies of cached and shared replies', async () => {
+    const cache = createCache();
+    const reply = { user: { name: 'Ada' } };
+
+    await cache.set('k', reply, 1000);
+    reply.user.name = 'Changed';
+    const hit = (await cache.get('k')) as typeof reply;
+    hit.user.name = 'Changed';
+    expect(await cache.get('k')).toEqual({ user: { name: 'Ada' } });
+
+    const [first, second] = await Promise.all([
+      cache.coalesce('c', async () => ({ name: 'Ada' })),
+      cache.coalesce('c', async () => ({ name: 'Grace' })),
+    ]);
+    first.name = 'Changed';
+    expect(second).toEqual({ name: 'Ada' });
+  });
+
+  it('should not coalesce when disabled', async () => {
+    const cache = createCache({ coalesce: false });
+    const load = vi.fn(async () => 'reply');
+
+    await Promise.all([cache.coalesce('k', load), cache.coalesce('k', load)]);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use a custom store', async () => {
+    const store = new LRUCacheStore(1);
+    const cache = createCache({ store });
+
+    await cache.set('k', { name: 'Ada' }, 1000);
+
+    expect(store.get('k')).toEqual({ name: 'Ada' });
+    await cache.clear();
+    expect(await cache.get('k')).toBeUndefined();
+  });
+});
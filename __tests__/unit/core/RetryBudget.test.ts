@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { RetryBudget } from '../../../src/core/RetryBudget';
+
+describe('RetryBudget', () => {
+  it('should start with a full balance', () => {
+    const budget = new RetryBudget({ ratio: 0.1, maxTokens: 2 });
+
+    expect(budget.tryWithdraw()).toBe(true);
+    expect(budget.tryWithdraw()).toBe(true);
+    expect(budget.tryWithdraw()).toBe(false);
+  });
+
+  it('should earn tokens from requests', () => {
+    const budget = new RetryBudget({ ratio: 0.5, maxTokens: 1 });
+    budget.tryWithdraw();
+
+    budget.deposit();
+    expect(budget.tryWithdraw()).toBe(false);
+
+    budget.deposit();
+    budget.deposit();
+    expect(budget.tryWithdraw()).toBe(true);
+  });
+
+  it('should not exceed maxTokens', () => {
+    const budget = new RetryBudget({ ratio: 1, maxTokens: 3 });
+
+    for (let i = 0; i < 10; i++) {
+      budget.deposit();
+    }
+
+    expect(budget.getTokens()).toBe(3);
+  });
+});
@@ -0,0 +1,179 @@
+import type { ConsumeMessage } from 'amqplib';
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+import { RMQConnectionManager } from '../../../src/core/RMQConnectionManager';
+import { RMQServer } from '../../../src/server/RMQServer';
+
+describe('RMQServer', () => {
+  let consoleErrorSpy: MockInstance;
+
+  // Records publishes, acks and nacks instead of talking to a broker
+  const createChannel = () => {
+    const calls: string[] = [];
+    const channel = {
+      publish: vi.fn((exchange: string, routingKey: string, _content: Buffer, options: any) => {
+        const error = options.headers?.['x-rpc-error'] ? ' error' : '';
+        calls.push(`publish ${exchange}/${routingKey}${error}`);
+        return true;
+      }),
+      ack: vi.fn(() => calls.push('ack')),
+      nack: vi.fn((_msg, _allUpTo, requeue: boolean) => calls.push(`nack requeue=${requeue}`)),
+    };
+    return { channel, calls };
+  };
+
+  const createMessage = (routingKey: string): ConsumeMessage =>
+    ({
+      content: Buffer.from('{}'),
+      fields: { routingKey },
+      properties: { headers: {}, replyTo: 'reply-queue', correlationId: 'c1' },
+    }) as unknown as ConsumeMessage;
+
+  const process = (server: RMQServer, msg: ConsumeMessage): Promise<void> =>
+    (server as any).processMessage(msg);
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    RMQConnectionManager.resetInstance();
+  });
+
+  describe('Retries', () => {
+    it('should not requeue a retried message when the channel signals backpressure', async () => {
+      const server = new RMQServer({
+        uri: 'amqp://localhost',
+        appName: 'sim',
+        retryOptions: { enabled: true },
+      });
+      const { channel, calls } = createChannel();
+      channel.publish.mockImplementation((exchange: string, routingKey: string) => {
+        calls.push(`publish ${exchange}/${routingKey}`);
+        return false;
+      });
+      (server as any).channel = channel;
+
+      server.on('job', async () => {
+        throw new Error('Job failed');
+      });
+
+      await process(server, createMessage('job'));
+
+      expect(calls).toEqual(['publish sim/job', 'ack']);
+    });
+  });
+
+  describe('Error replies', () => {
+    it('should dead-letter once and reply without details that cannot be serialized', async () => {
+      const server = new RMQServer({ uri: 'amqp://localhost', appName: 'sim' });
+      const { channel, calls } = createChannel();
+      (server as any).channel = channel;
+
+      server.on('job', async () => {
+        const details: Record<string, unknown> = { count: 10n };
+        details.self = details;
+        throw Object.assign(new Error('Job failed'), { details });
+      });
+
+      await process(server, createMessage('job'));
+
+      expect(calls).toEqual(['publish /sim.dlq', 'ack', 'publish /reply-queue error']);
+      const reply = JSON.parse(channel.publish.mock.calls[1][2].toString());
+      expect(reply).toEqual({ name: 'Error', message: 'Job failed' });
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it('should report a reply that cannot be serialized as an error', async () => {
+      const server = new RMQServer({ uri: 'amqp://localhost', appName: 'sim' });
+      const { channel, calls } = createChannel();
+      (server as any).channel = channel;
+
+      server.on('job', async (_context, reply) => {
+        reply({ count: 10n });
+      });
+
+      await process(server, createMessage('job'));
+
+      expect(calls).toEqual(['publish /reply-queue error', 'ack']);
+    });
+  });
+
+  describe('Broadcast', () => {
+    it('should dispatch each queue to its own kind of handler when patterns overlap', async () => {
+      const server = new RMQServer({
+        uri: 'amqp://localhost',
+        appName: 'sim',
+        exchangeType: 'topic',
+      });
+      const { channel } = createChannel();
+      (server as any).channel = channel;
+      const broadcastHandler = vi.fn(async () => {});
+      const handler = vi.fn(async () => {});
+      server.on('cache.#', broadcastHandler, { broadcast: true });
+      server.on('cache.stats', handler);
+
+      // The broker delivers `cache.stats` to the main queue and to the broadcast queue
+      await (server as any).processMessage(createMessage('cache.stats'), false);
+      await (server as any).processMessage(createMessage('cache.stats'), true);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(broadcastHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Headers exchange', () => {
+    it('should dispatch by headers and dead-letter messages no handler matches', async () => {
+      const server = new RMQServer({
+        uri: 'amqp://localhost',
+        appName: 'sim',
+        exchangeType: 'headers',
+      });
+      const { channel, calls } = createChannel();
+      (server as any).channel = channel;
+      const pdf = vi.fn(async () => {});
+      const csv = vi.fn(async () => {});
+      server.on('report.pdf', pdf, { bindingHeaders: { format: 'pdf' } });
+      server.on('report.csv', csv, { bindingHeaders: { format: 'csv' } });
+
+      const withHeaders = (headers: Record<string, unknown>) => {
+        const msg = createMessage('report.render');
+        msg.properties.headers = headers;
+        return msg;
+      };
+      await process(server, withHeaders({ format: 'csv' }));
+      await process(server, withHeaders({ format: 'xml' }));
+
+      expect(csv).toHaveBeenCalledTimes(1);
+      expect(pdf).not.toHaveBeenCalled();
+      expect(calls).toEqual(['ack', 'publish /sim.dlq', 'ack']);
+    });
+  });
+
+  describe('Topology', () => {
+    it('should bind on headers a headers exchange does not ignore', async () => {
+      const server = new RMQServer({
+        uri: 'amqp://localhost',
+        appName: 'sim',
+        exchangeType: 'headers',
+      });
+      const channel = {
+        assertExchange: vi.fn(),
+        assertQueue: vi.fn(async (queue: string) => ({ queue: queue || 'amq.gen' })),
+        bindQueue: vi.fn(),
+        consume: vi.fn(),
+      };
+      server.on('report.render', async () => {}, { bindingHeaders: { format: 'pdf' } });
+
+      await (server as any).setupChannel(channel);
+
+      // Headers exchanges ignore `x-` keys other than x-match when matching
+      const bindings = channel.bindQueue.mock.calls.map((call) => call[3] ?? {});
+      expect(bindings).toContainEqual({ 'x-match': 'all', 'bunny-rpc-cancel': 'true' });
+      for (const binding of bindings) {
+        expect(Object.keys(binding).filter((key) => key.startsWith('x-'))).toEqual(['x-match']);
+      }
+    });
+  });
+});
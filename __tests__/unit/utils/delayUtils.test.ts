@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RMQPublishError } from '../../../src/errors';
+import { DEFAULT_DELAYED_MESSAGE_OPTIONS } from '../../../src/interfaces/common';
+import {
+  delayProperties,
+  resolveDelayedOptions,
+  validateDelayBuckets,
+} from '../../../src/utils/delayUtils';
+
+describe('Delay Utilities', () => {
+  describe('delayProperties', () => {
+    const ttlQueues = { strategy: 'ttl-queues' as const, buckets: [60000, 1000, 5000] };
+
+    it('should route to the smallest bucket covering the delay', () => {
+      expect(delayProperties('task.run', 3000, ttlQueues)).toEqual({
+        headers: { 'bunny-delay-bucket': '5000' },
+        expiration: 3000,
+      });
+      expect(delayProperties('task.run', 1000, ttlQueues).headers).toEqual({
+        'bunny-delay-bucket': '1000',
+      });
+    });
+
+    it('should reject delays beyond the largest bucket', () => {
+      expect(() => delayProperties('task.run', 60001, ttlQueues)).toThrow(RMQPublishError);
+    });
+
+    it('should set the x-delay header for the plugin strategy', () => {
+      expect(
+        delayProperties('task.run', 90000000, {
+          ...DEFAULT_DELAYED_MESSAGE_OPTIONS,
+          strategy: 'plugin',
+        }),
+      ).toEqual({ headers: { 'x-delay': 90000000 } });
+    });
+  });
+
+  describe('resolveDelayedOptions', () => {
+    const plugin = { ...DEFAULT_DELAYED_MESSAGE_OPTIONS, strategy: 'plugin' as const };
+
+    // A connection manager whose scratch connection declares exchanges with `assertExchange`
+    const createManager = (assertExchange: () => Promise<unknown>) => {
+      const channel = { on: vi.fn(), assertExchange: vi.fn(assertExchange), close: vi.fn() };
+      const connection = { createChannel: vi.fn().mockResolvedValue(channel) };
+      const manager = {
+        withScratchConnection: vi.fn((fn: (connection: unknown) => Promise<unknown>) =>
+          fn(connection),
+        ),
+      };
+      return { manager: manager as any, channel };
+    };
+
+    it('should keep the plugin strategy when the broker has the plugin', async () => {
+      const { manager, channel } = createManager(async () => ({}));
+
+      await expect(resolveDelayedOptions(manager, 'billing', plugin)).resolves.toEqual(plugin);
+      expect(channel.assertExchange).toHaveBeenCalledWith(
+        'billing.delay',
+        'x-delayed-message',
+        expect.anything(),
+      );
+    });
+
+    it('should fall back to TTL queues when the broker lacks the plugin', async () => {
+      const { manager } = createManager(async () => {
+        throw new Error("COMMAND_INVALID - unknown exchange type 'x-delayed-message'");
+      });
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(resolveDelayedOptions(manager, 'billing', plugin)).resolves.toEqual({
+        ...plugin,
+        strategy: 'ttl-queues',
+      });
+      warnSpy.mockRestore();
+    });
+
+    it('should not probe the broker for TTL queues', async () => {
+      const { manager } = createManager(async () => ({}));
+
+      await resolveDelayedOptions(manager, 'billing', DEFAULT_DELAYED_MESSAGE_OPTIONS);
+
+      expect(manager.withScratchConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateDelayBuckets', () => {
+    it('should accept the default buckets', () => {
+      expect(() => validateDelayBuckets(DEFAULT_DELAYED_MESSAGE_OPTIONS.buckets)).not.toThrow();
+    });
+
+    it('should reject empty or non-positive buckets', () => {
+      expect(() => validateDelayBuckets([])).toThrow();
+      expect(() => validateDelayBuckets([1000, 0])).toThrow();
+      expect(() => validateDelayBuckets([1.5])).toThrow();
+    });
+  });
+});
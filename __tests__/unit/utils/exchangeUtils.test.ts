@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
 import {
   assertExchange,
+  exchangeExists,
   isReservedExchange,
   validateExchange,
 } from '../../../src/utils/exchangeUtils';
@@ -77,4 +78,37 @@ describe('Exchange Utilities', () => {
       );
     });
   });
+
+  describe('exchangeExists', () => {
+    const createConnection = (checkExchange: () => Promise<unknown>) => {
+      const channel = {
+        on: vi.fn(),
+        checkExchange: vi.fn(checkExchange),
+        close: vi.fn().mockResolvedValue(undefined),
+      };
+      return { connection: { createChannel: vi.fn().mockResolvedValue(channel) }, channel };
+    };
+
+    it('should report an exchange the broker knows', async () => {
+      const { connection, channel } = createConnection(async () => ({}));
+
+      await expect(exchangeExists(connection, 'billing')).resolves.toBe(true);
+      expect(channel.close).toHaveBeenCalled();
+    });
+
+    it('should report a missing exchange without throwing', async () => {
+      const { connection } = createConnection(async () => {
+        throw new Error("NOT_FOUND - no exchange 'billing'");
+      });
+
+      await expect(exchangeExists(connection, 'billing')).resolves.toBe(false);
+    });
+
+    it('should not check reserved exchanges', async () => {
+      const { connection } = createConnection(async () => ({}));
+
+      await expect(exchangeExists(connection, 'amq.topic')).resolves.toBe(true);
+      expect(connection.createChannel).not.toHaveBeenCalled();
+    });
+  });
 });
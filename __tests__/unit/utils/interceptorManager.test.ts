@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InterceptorManager } from '../../../src/core/InterceptorManager';
+import type { ClientRequest } from '../../../src/interfaces/client';
+
+describe('InterceptorManager', () => {
+  const createRequest = (): ClientRequest => ({
+    operation: 'send',
+    routingKey: 'user.get',
+    message: { id: 1 },
+    options: { headers: {} },
+  });
+
+  it('should perform the call without any interceptor', async () => {
+    const manager = new InterceptorManager();
+    const call = vi.fn(async () => 'reply');
+
+    await expect(manager.run(createRequest(), call)).resolves.toBe('reply');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run interceptors in order and pass on their changes to the request', async () => {
+    const manager = new InterceptorManager();
+    const order: string[] = [];
+
+    manager.use(async (request, next) => {
+      order.push('first');
+      request.options.headers['x-tenant'] = 'acme';
+      return next();
+    });
+    manager.use(async (request, next) => {
+      order.push('second');
+      request.routingKey = `v2.${request.routingKey}`;
+      return next();
+    });
+
+    const call = vi.fn(async (request: ClientRequest) => {
+      order.push('call');
+      return request;
+    });
+    const request = await manager.run(createRequest(), call);
+
+    expect(order).toEqual(['first', 'second', 'call']);
+    expect(request.routingKey).toBe('v2.user.get');
+    expect(request.options.headers).toEqual({ 'x-tenant': 'acme' });
+  });
+
+  it('should let interceptors transform replies and errors', async () => {
+    const manager = new InterceptorManager();
+
+    manager.use(async (_request, next) => ({ wrapped: await next() }));
+    await expect(manager.run(createRequest(), async () => 'reply')).resolves.toEqual({
+      wrapped: 'reply',
+    });
+
+    const failing = new InterceptorManager();
+    failing.use(async (_request, next) => {
+      try {
+        return await next();
+      } catch {
+        return 'fallback';
+      }
+    });
+    await expect(
+      failing.run(createRequest(), async () => {
+        throw new Error('boom');
+      }),
+    ).resolves.toBe('fallback');
+  });
+
+  it('should short-circuit when an interceptor does not call next', async () => {
+    const manager = new InterceptorManager();
+    const call = vi.fn(async () => 'reply');
+
+    manager.use(async () => 'cached');
+
+    await expect(manager.run(createRequest(), call)).resolves.toBe('cached');
+    expect(call).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RMQPublishError } from '../../../src/errors/HandlerError';
+import { publishMessage } from '../../../src/utils/publishUtils';
+
+describe('publishMessage', () => {
+  const content = Buffer.from('{}');
+
+  describe('plain channel', () => {
+    it('should resolve when the message is handed to the channel', async () => {
+      const channelMock = { publish: vi.fn().mockReturnValue(true) };
+
+      await publishMessage(channelMock as any, 'ex', 'user.created', content, { persistent: true });
+
+      expect(channelMock.publish).toHaveBeenCalledWith('ex', 'user.created', content, {
+        persistent: true,
+      });
+    });
+
+    it('should resolve when the buffer is full, since the message is still written', async () => {
+      const channelMock = { publish: vi.fn().mockReturnValue(false) };
+
+      await expect(
+        publishMessage(channelMock as any, 'ex', 'user.created', content, {}),
+      ).resolves.toBeUndefined();
+      expect(channelMock.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when the channel throws', async () => {
+      const channelMock = {
+        publish: vi.fn(() => {
+          throw new Error('Channel closed');
+        }),
+      };
+
+      await expect(
+        publishMessage(channelMock as any, 'ex', 'user.created', content, {}),
+      ).rejects.toThrow('Channel closed');
+    });
+  });
+
+  describe('confirm channel', () => {
+    it('should resolve on broker ack', async () => {
+      const channelMock = {
+        publish: vi.fn((_ex, _rk, _content, _options, cb) => {
+          setImmediate(() => cb(null));
+          return true;
+        }),
+      };
+
+      await expect(
+        publishMessage(channelMock as any, 'ex', 'user.created', content, {}, true),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject with RMQPublishError on broker nack', async () => {
+      const channelMock = {
+        publish: vi.fn((_ex, _rk, _content, _options, cb) => {
+          setImmediate(() => cb(new Error('nack')));
+          return true;
+        }),
+      };
+
+      const error = await publishMessage(
+        channelMock as any,
+        'ex',
+        'user.created',
+        content,
+        {},
+        true,
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RMQPublishError);
+      expect(error.routingKey).toBe('user.created');
+    });
+
+    it('should wait for the ack even when the buffer is full', async () => {
+      const channelMock = {
+        publish: vi.fn((_ex, _rk, _content, _options, cb) => {
+          setImmediate(() => cb(null));
+          return false;
+        }),
+      };
+
+      await expect(
+        publishMessage(channelMock as any, 'ex', 'user.created', content, {}, true),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
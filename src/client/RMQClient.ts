@@ -3,28 +3,128 @@
 import { EventEmitter } from 'node:events';
 import type * as amqp from 'amqplib';
 import { v4 as uuidv4 } from 'uuid';
+import { CircuitBreaker } from '../core/CircuitBreaker';
+import { ConcurrencyLimiter } from '../core/ConcurrencyLimiter';
+import { InterceptorManager } from '../core/InterceptorManager';
+import { OfflineBuffer } from '../core/OfflineBuffer';
+import { RateLimiter } from '../core/RateLimiter';
+import { ReplyCache } from '../core/ReplyCache';
+import { RetryBudget } from '../core/RetryBudget';
 import { RMQConnectionManager } from '../core/RMQConnectionManager';
-import { RMQConnectionError, RMQPublishError, RMQTimeoutError } from '../errors';
-import type { RMQClient as IRMQClient, RMQClientOptions, SendOptions } from '../interfaces/client';
-import type { ShutdownOptions, ShutdownResult } from '../interfaces/common';
-import { assertExchange, validateExchange } from '../utils/exchangeUtils';
+import {
+  RMQAbortError,
+  RMQCircuitOpenError,
+  RMQConnectionError,
+  RMQPublishError,
+  RMQRemoteError,
+  RMQTimeoutError,
+  RMQUnroutableError,
+  RMQValidationError,
+} from '../errors';
+import {
+  type CircuitState,
+  type ClientInterceptor,
+  type ClientRequest,
+  DEFAULT_CACHE_OPTIONS,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  DEFAULT_CONCURRENCY_LIMIT_OPTIONS,
+  DEFAULT_HEDGE_OPTIONS,
+  DEFAULT_OFFLINE_BUFFER_OPTIONS,
+  DEFAULT_RATE_LIMIT_OPTIONS,
+  DEFAULT_REQUEST_RETRY_OPTIONS,
+  DEFAULT_RETRY_BUDGET_OPTIONS,
+  type GatherOptions,
+  type GatherReply,
+  type InFlightPolicy,
+  type RMQClient as IRMQClient,
+  type LimiterStats,
+  type PublishOptions,
+  type RequestRetryOptions,
+  type RMQClientOptions,
+  type SendOptions,
+  type ServiceOptions,
+} from '../interfaces/client';
+import {
+  DEFAULT_DELAYED_MESSAGE_OPTIONS,
+  type DelayedMessageOptions,
+  type ExchangeOptions,
+  type ExchangeType,
+  RPC_CANCEL_HEADER,
+  RPC_CANCEL_ROUTING_KEY,
+  type ShutdownOptions,
+  type ShutdownResult,
+} from '../interfaces/common';
+import type { ContractDefinition, ReplyOf, RequestOf, RoutingKeyOf } from '../interfaces/contract';
+import {
+  assertDelayExchange,
+  delayExchangeName,
+  delayProperties,
+  resolveDelayedOptions,
+  validateDelayBuckets,
+} from '../utils/delayUtils';
+import { assertExchange, exchangeExists, validateExchange } from '../utils/exchangeUtils';
+import { publishMessage } from '../utils/publishUtils';
+import { RMQServiceClient } from './RMQServiceClient';
 
-export class RMQClient extends EventEmitter implements IRMQClient {
+const DIRECT_REPLY_QUEUE = 'amq.rabbitmq.reply-to';
+
+/**
+ * Callbacks threaded through the steps of one send() call
+ */
+interface SendHooks {
+  /** Called with the reply's properties before the reply is returned */
+  onReply?: (properties: amqp.MessageProperties) => void;
+  /** Called once the request has been handed to the channel */
+  onDispatched?: () => void;
+}
+
+export class RMQClient<C extends ContractDefinition = ContractDefinition>
+  extends EventEmitter
+  implements IRMQClient<C>
+{
   private exchange: string;
+  private exchangeType: ExchangeType;
+  private exchangeOptions: ExchangeOptions;
   private appName: string;
   private connectionManager: RMQConnectionManager;
   private channel: amqp.Channel | null = null;
-  private replyQueue: amqp.Replies.AssertQueue | null = null;
+  private replyQueue: string | null = null;
   private responseEmitter: EventEmitter;
   private isConnected: boolean = false;
+  private isShuttingDown: boolean = false;
+  private reconnectFailed: boolean = false;
+  private confirm: boolean;
+  private directReplyTo: boolean;
+  private mandatory: boolean;
+  private offlineBuffer: OfflineBuffer | null = null;
+  private circuitBreaker: CircuitBreaker | null = null;
+  private retryOptions: Partial<RequestRetryOptions>;
+  private retryBudget: RetryBudget;
+  private contract: C | null;
+  private inFlightPolicy: InFlightPolicy;
+  private stableReplyQueue: string | null = null;
+  private assertedExchanges: Set<string> = new Set();
+  // Delayed message options in effect per target exchange, once its delay exchange is asserted
+  private delayExchanges: Map<string, DelayedMessageOptions> = new Map();
+  // Declarations of exchanges targeted through service(), by name
+  private serviceExchanges: Map<string, { type: ExchangeType; options: ExchangeOptions }> =
+    new Map();
+  // Contracts of exchanges targeted through service(), by name
+  private serviceContracts: Map<string, ContractDefinition> = new Map();
+  private replyQueueExpiresMs: number;
+  private concurrencyLimiter: ConcurrencyLimiter | null = null;
+  private rateLimiter: RateLimiter | null = null;
+  private replyCache: ReplyCache | null = null;
+  private delayedOptions: DelayedMessageOptions;
+  private interceptorManager: InterceptorManager = new InterceptorManager();
 
   // For graceful shutdown - tracks pending RPC requests
   private pendingRequests: Map<
     string,
-    { reject: (error: Error) => void; timer: NodeJS.Timeout | null }
+    { reject: (error: Error) => void; timer: NodeJS.Timeout | null; republish?: () => void }
   > = new Map();
 
-  constructor(options: RMQClientOptions) {
+  constructor(options: RMQClientOptions<C>) {
     super();
 
     this.appName = options.appName;
@@ -32,6 +132,54 @@ export class RMQClient extends EventEmitter implements IRMQClient {
     this.responseEmitter = new EventEmitter();
     this.responseEmitter.setMaxListeners(0);
     this.exchange = options.exchange ?? options.appName;
+    this.exchangeType = options.exchangeType ?? 'direct';
+    this.exchangeOptions = { durable: true, ...options.exchangeOptions };
+    this.confirm = options.confirm ?? false;
+    this.directReplyTo = options.directReplyTo ?? false;
+    this.mandatory = options.mandatory ?? false;
+    const offlineBufferOptions = { ...DEFAULT_OFFLINE_BUFFER_OPTIONS, ...options.offlineBuffer };
+    if (offlineBufferOptions.enabled) {
+      this.offlineBuffer = new OfflineBuffer(offlineBufferOptions);
+    }
+    const circuitBreakerOptions = {
+      ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+      ...options.circuitBreaker,
+    };
+    if (circuitBreakerOptions.enabled) {
+      this.circuitBreaker = new CircuitBreaker(
+        circuitBreakerOptions,
+        (routingKey, state, previous) =>
+          this.emit('circuitStateChange', routingKey, state, previous),
+      );
+    }
+    this.retryOptions = options.retry ?? {};
+    this.contract = options.contract ?? null;
+    this.inFlightPolicy = options.inFlightPolicy ?? 'wait';
+    this.replyQueueExpiresMs = options.replyQueueExpiresMs ?? 60000;
+    if (this.inFlightPolicy === 'stable-queue') {
+      if (this.directReplyTo) {
+        throw new Error("inFlightPolicy 'stable-queue' cannot be combined with directReplyTo");
+      }
+      this.stableReplyQueue = `${this.appName}.reply.${uuidv4()}`;
+    }
+    const concurrencyOptions = { ...DEFAULT_CONCURRENCY_LIMIT_OPTIONS, ...options.concurrency };
+    if (concurrencyOptions.enabled) {
+      this.concurrencyLimiter = new ConcurrencyLimiter(concurrencyOptions);
+    }
+    const rateLimitOptions = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options.rateLimit };
+    if (rateLimitOptions.enabled) {
+      this.rateLimiter = new RateLimiter(rateLimitOptions);
+    }
+    const cacheOptions = { ...DEFAULT_CACHE_OPTIONS, ...options.cache };
+    if (cacheOptions.enabled) {
+      this.replyCache = new ReplyCache(cacheOptions);
+    }
+    this.delayedOptions = { ...DEFAULT_DELAYED_MESSAGE_OPTIONS, ...options.delayed };
+    validateDelayBuckets(this.delayedOptions.buckets);
+    this.retryBudget = new RetryBudget({
+      ...DEFAULT_RETRY_BUDGET_OPTIONS,
+      ...options.retryBudget,
+    });
     validateExchange(this.exchange);
 
     // Listen to connection events
@@ -44,6 +192,9 @@ export class RMQClient extends EventEmitter implements IRMQClient {
   private setupConnectionListeners(): void {
     this.connectionManager.on('disconnected', (error) => {
       this.isConnected = false;
+      if (this.inFlightPolicy === 'fail') {
+        this.rejectPending(new RMQConnectionError('Connection lost: request cancelled'));
+      }
       this.emit('disconnected', error);
     });
 
@@ -53,10 +204,20 @@ export class RMQClient extends EventEmitter implements IRMQClient {
 
     this.connectionManager.on('reconnected', () => {
       this.isConnected = true;
+      this.reconnectFailed = false;
       this.emit('reconnected');
+      if (this.inFlightPolicy === 'republish') {
+        this.republishPending();
+      }
+      this.offlineBuffer?.flush();
     });
 
     this.connectionManager.on('error', (error) => {
+      this.reconnectFailed = true;
+      this.offlineBuffer?.clear(error);
+      if (this.inFlightPolicy === 'fail' || this.inFlightPolicy === 'republish') {
+        this.rejectPending(error);
+      }
       this.emit('error', error);
     });
   }
@@ -67,41 +228,232 @@ export class RMQClient extends EventEmitter implements IRMQClient {
   private async setupChannel(channel: amqp.Channel): Promise<void> {
     this.channel = channel;
 
-    // Setup exchange
-    await assertExchange(channel, this.exchange);
+    // Mandatory messages without a matching binding come back as basic.return
+    channel.on('return', this.handleReturn.bind(this));
 
-    // Create exclusive reply queue
-    this.replyQueue = await channel.assertQueue('', { exclusive: true });
+    // Setup exchange - other target exchanges are asserted again on first use
+    await assertExchange(channel, this.exchange, this.exchangeType, this.exchangeOptions);
+    this.assertedExchanges.clear();
+    this.delayExchanges.clear();
+
+    // Direct reply-to is a pseudo-queue: nothing to declare, but it requires a no-ack consumer
+    if (this.directReplyTo) {
+      this.replyQueue = DIRECT_REPLY_QUEUE;
+    } else if (this.stableReplyQueue) {
+      // Named and non-exclusive so replies keep arriving while disconnected; x-expires drops it once abandoned
+      await channel.assertQueue(this.stableReplyQueue, {
+        durable: false,
+        autoDelete: false,
+        arguments: { 'x-expires': this.replyQueueExpiresMs },
+      });
+      this.replyQueue = this.stableReplyQueue;
+    } else {
+      const { queue } = await channel.assertQueue('', { exclusive: true });
+      this.replyQueue = queue;
+    }
 
     // Setup consumer for RPC replies
     await channel.consume(
-      this.replyQueue.queue,
+      this.replyQueue,
       (msg: amqp.ConsumeMessage | null) => {
         if (msg && this.channel) {
           const correlationId = msg.properties.correlationId;
           const content = msg.content.toString();
-          this.responseEmitter.emit(correlationId, content);
-          this.channel.ack(msg);
+          this.responseEmitter.emit(correlationId, content, msg.properties);
+          if (!this.directReplyTo) {
+            this.channel.ack(msg);
+          }
         }
       },
-      { noAck: false },
+      { noAck: this.directReplyTo },
     );
   }
 
-  public static async connect(options: RMQClientOptions): Promise<RMQClient> {
-    const client = new RMQClient(options);
+  /**
+   * Fail the pending request of a returned message, or report it for fire-and-forget publishes
+   */
+  private handleReturn(msg: amqp.Message): void {
+    const routingKey = msg.fields.routingKey;
+    const pending = this.pendingRequests.get(msg.properties.correlationId);
+    if (pending) {
+      pending.reject(new RMQUnroutableError(routingKey));
+    } else {
+      this.emit('returned', routingKey, msg);
+    }
+  }
+
+  public static async connect<C extends ContractDefinition = ContractDefinition>(
+    options: RMQClientOptions<C>,
+  ): Promise<RMQClient<C>> {
+    const client = new RMQClient<C>(options);
     await client.connect();
     return client;
   }
 
   public async connect(): Promise<void> {
     // Create channel with setup callback for reconnection
-    await this.connectionManager.createChannel(this.setupChannel.bind(this));
+    await this.connectionManager.createChannel(this.setupChannel.bind(this), {
+      confirm: this.confirm,
+    });
     this.isConnected = true;
     this.emit('connected');
   }
 
-  public async send<T>(routingKey: string, message: any, options: SendOptions = {}): Promise<T> {
+  /**
+   * Send an RPC request and wait for the reply
+   * With a contract, the routing key and message are type-checked and the reply is validated
+   */
+  public async send<T = never, K extends RoutingKeyOf<C> = RoutingKeyOf<C>>(
+    routingKey: K,
+    message: RequestOf<C, K>,
+    options: SendOptions = {},
+  ): Promise<ReplyOf<C, K, T>> {
+    this.assertNotShuttingDown();
+
+    // Queue behind a running flush too, so nothing overtakes the buffered messages
+    if (this.offlineBuffer && (this.isReconnecting() || this.offlineBuffer.isFlushing)) {
+      return this.offlineBuffer.enqueue((dispatched) =>
+        this.sendIntercepted(routingKey, message, options, dispatched),
+      );
+    }
+
+    return this.sendIntercepted(routingKey, message, options);
+  }
+
+  private sendIntercepted(
+    routingKey: string,
+    message: any,
+    options: SendOptions,
+    onDispatched?: () => void,
+  ): Promise<any> {
+    return this.interceptorManager.run(
+      this.createRequest('send', routingKey, message, options),
+      (request) =>
+        this.sendWithCache(request.routingKey, request.message, request.options, { onDispatched }),
+    );
+  }
+
+  /**
+   * Serve a request from the reply cache if its route is cached, otherwise send it
+   */
+  private async sendWithCache(
+    routingKey: string,
+    message: any,
+    options: SendOptions,
+    hooks: SendHooks = {},
+  ): Promise<any> {
+    const cache = this.replyCache;
+    const key = this.scopedKey(options.exchange ?? this.exchange, routingKey);
+    const ttlMs = options.cache === false ? undefined : cache?.ttlFor(key);
+    if (!cache || ttlMs === undefined) {
+      return this.sendWithRetry(routingKey, message, options, hooks);
+    }
+
+    const cacheKey = cache.keyFor(key, message, options.headers);
+    const cached = await cache.get(cacheKey);
+    if (cached !== undefined) {
+      this.emit('cacheHit', routingKey);
+      return cached;
+    }
+
+    let loading = false;
+    const load = async () => {
+      loading = true;
+      // The server can override the route's TTL per reply; 0 means do not cache
+      let replyTtlMs = ttlMs;
+      const response = await this.sendWithRetry(routingKey, message, options, {
+        ...hooks,
+        onReply: (properties) => {
+          const hint = properties.headers?.['x-cache-ttl'];
+          if (typeof hint === 'number' && hint >= 0) replyTtlMs = hint;
+          hooks.onReply?.(properties);
+        },
+      });
+      if (replyTtlMs > 0) await cache.set(cacheKey, response, replyTtlMs);
+      return response;
+    };
+
+    // A caller with its own signal must be able to abort without failing the others
+    const response = options.signal ? load() : cache.coalesce(cacheKey, load);
+    // Joined an identical request in flight: there is nothing to hand to the channel
+    if (!loading) hooks.onDispatched?.();
+    return response;
+  }
+
+  /**
+   * Send an RPC request, retrying failed attempts according to the retry policy
+   */
+  private async sendWithRetry(
+    routingKey: string,
+    message: any,
+    options: SendOptions,
+    hooks: SendHooks = {},
+  ): Promise<any> {
+    this.retryBudget.deposit();
+
+    const retry =
+      options.retry === false
+        ? null
+        : { ...DEFAULT_REQUEST_RETRY_OPTIONS, ...this.retryOptions, ...options.retry };
+    if (!retry || retry.maxAttempts <= 1) {
+      return this.sendOnce(routingKey, message, options, hooks);
+    }
+
+    // Same idempotency key on every attempt so the server can dedupe
+    const attemptOptions: SendOptions = {
+      ...options,
+      headers: { 'x-idempotency-key': uuidv4(), ...options.headers },
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendOnce(routingKey, message, attemptOptions, hooks);
+      } catch (error) {
+        if (
+          !(error instanceof Error) ||
+          attempt >= retry.maxAttempts ||
+          !retry.retryOn(error) ||
+          !this.retryBudget.tryWithdraw()
+        ) {
+          throw error;
+        }
+
+        // Exponential backoff with full jitter
+        const baseDelay = Math.min(
+          retry.maxDelayMs,
+          retry.initialDelayMs * retry.backoffMultiplier ** (attempt - 1),
+        );
+        await this.delay(Math.random() * baseDelay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Wait before the next retry, rejecting early if the request is aborted
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RMQAbortError('Request aborted while waiting to retry'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Publish a single RPC attempt and wait for its reply
+   */
+  private async sendOnce(
+    routingKey: string,
+    message: any,
+    options: SendOptions,
+    hooks: SendHooks = {},
+  ): Promise<any> {
     if (!this.channel || !this.isConnected) {
       throw new RMQConnectionError('Client not connected. Call connect() first.');
     }
@@ -110,23 +462,68 @@ export class RMQClient extends EventEmitter implements IRMQClient {
       throw new RMQConnectionError('Reply queue not initialized.');
     }
 
+    if (options.signal?.aborted) {
+      throw new RMQAbortError(`Request to '${routingKey}' aborted`);
+    }
+
     const correlationId = uuidv4();
     if (options.nestCompatible) {
       message.id = correlationId; // for Nest.js compatibility
     }
+    // Serialize before anything is registered, so an unserializable message leaves nothing behind
+    const content = Buffer.from(JSON.stringify(message));
+
+    const channel = this.channel;
+    const replyTo = this.replyQueue;
+    const exchange = options.exchange ?? this.exchange;
+    const key = this.scopedKey(exchange, routingKey);
+    await this.ensureExchange(channel, exchange);
+    const release = await this.acquireLimits(key, options.signal);
+
+    // The signal may have fired while the exchange was asserted; its listener is not added yet
+    if (options.signal?.aborted) {
+      release();
+      throw new RMQAbortError(`Request to '${routingKey}' aborted`);
+    }
 
-    return new Promise<T>((resolve, reject) => {
+    if (this.circuitBreaker && !this.circuitBreaker.tryAcquire(key)) {
+      release();
+      throw new RMQCircuitOpenError(routingKey);
+    }
+
+    const hedge = options.hedge ? { ...DEFAULT_HEDGE_OPTIONS, ...options.hedge } : null;
+
+    const request = new Promise<any>((resolve, reject) => {
       let timer: NodeJS.Timeout | null = null;
+      const hedgeTimers: NodeJS.Timeout[] = [];
+      let hedged = false;
 
-      // Track this request for graceful shutdown
-      this.pendingRequests.set(correlationId, { reject, timer });
+      // Track this request for graceful shutdown and returned (unroutable) messages
+      this.pendingRequests.set(correlationId, {
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+        timer,
+      });
+
+      const onAbort = () => {
+        if (!this.pendingRequests.has(correlationId)) return;
+        cleanup();
+        reject(new RMQAbortError(`Request to '${routingKey}' aborted`));
+        this.publishCancel(correlationId, exchange);
+      };
 
       const cleanup = () => {
         if (timer) clearTimeout(timer);
+        for (const hedgeTimer of hedgeTimers) clearTimeout(hedgeTimer);
+        options.signal?.removeEventListener('abort', onAbort);
         this.responseEmitter.removeAllListeners(correlationId);
         this.pendingRequests.delete(correlationId);
       };
 
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
       if (options.timeout !== null && options.timeout !== undefined) {
         timer = setTimeout(() => {
           cleanup();
@@ -137,67 +534,722 @@ export class RMQClient extends EventEmitter implements IRMQClient {
         if (pending) pending.timer = timer;
       }
 
-      const cleanupAndResolve = (content: string) => {
+      const cleanupAndResolve = (content: string, properties: amqp.MessageProperties) => {
         cleanup();
+        // First reply wins - stop servers still working on a duplicate
+        if (hedged) this.publishCancel(correlationId, exchange);
+        let response: any;
         try {
-          const response = JSON.parse(content);
-          resolve(response);
+          response = JSON.parse(content);
         } catch {
           reject(new Error('Failed to parse response'));
+          return;
+        }
+        if (properties.headers?.['x-rpc-error']) {
+          reject(new RMQRemoteError(response));
+          return;
         }
+
+        // Validated here, before the reply cache stores it
+        const contract =
+          exchange === this.exchange ? this.contract : this.serviceContracts.get(exchange);
+        const validate = contract?.[routingKey]?.response;
+        if (validate) {
+          try {
+            response = validate(response);
+          } catch (error) {
+            reject(new RMQValidationError(`Invalid reply from '${routingKey}'`, routingKey, error));
+            return;
+          }
+        }
+        hooks.onReply?.(properties);
+        resolve(response);
       };
 
       this.responseEmitter.once(correlationId, cleanupAndResolve);
 
-      try {
-        const sent = this.channel?.publish(
-          this.exchange,
+      // Propagate the timeout so the broker and the server can drop the request once nobody waits
+      const timeout = options.timeout ?? undefined;
+      const deadline = timeout === undefined ? undefined : Date.now() + timeout;
+      const headers =
+        deadline === undefined ? options.headers : { ...options.headers, 'x-deadline': deadline };
+
+      const publish = (target: amqp.Channel, targetReplyTo: string) =>
+        publishMessage(
+          target,
+          exchange,
           routingKey,
-          Buffer.from(JSON.stringify(message)),
+          content,
           {
-            replyTo: this.replyQueue?.queue,
+            replyTo: targetReplyTo,
             correlationId,
             persistent: options.persistent ?? true,
-            headers: options.headers,
+            headers,
+            expiration: deadline === undefined ? undefined : Math.max(0, deadline - Date.now()),
+            mandatory: options.mandatory ?? this.mandatory,
+            priority: options.priority,
           },
+          this.confirm,
         );
-        if (!sent) {
-          cleanup();
-          reject(new RMQPublishError("Channel's internal buffer is full"));
-        }
-      } catch (error) {
+      const fail = (error: unknown) => {
         cleanup();
         reject(error instanceof Error ? error : new Error('Unknown error during publish'));
+      };
+
+      // Resent after a reconnect with the 'republish' policy - same correlationId, new reply queue
+      const pending = this.pendingRequests.get(correlationId);
+      if (pending) {
+        pending.republish = () => {
+          if (this.channel && this.replyQueue) publish(this.channel, this.replyQueue).catch(fail);
+        };
+      }
+
+      publish(channel, replyTo).catch(fail);
+      hooks.onDispatched?.();
+
+      // Duplicates share the correlationId, so a late reply finds no listener and is dropped.
+      // Each duplicate spends a retry budget token so hedging cannot multiply load in an outage.
+      if (hedge) {
+        for (let i = 1; i <= hedge.maxHedges; i++) {
+          const hedgeTimer = setTimeout(() => {
+            if (!this.pendingRequests.has(correlationId) || !this.channel || !this.replyQueue) {
+              return;
+            }
+            if (!this.retryBudget.tryWithdraw()) return;
+            hedged = true;
+            this.emit('hedged', routingKey, i);
+            publish(this.channel, this.replyQueue).catch(() => {
+              // Best effort - the original request is still pending
+            });
+          }, hedge.delayMs * i);
+          hedgeTimers.push(hedgeTimer);
+        }
+      }
+    });
+
+    request.then(release, release);
+
+    const circuitBreaker = this.circuitBreaker;
+    if (!circuitBreaker) return request;
+
+    // Only timeouts and remote errors mean the consumer side is unhealthy
+    return request.then(
+      (response) => {
+        circuitBreaker.record(key, 'success');
+        return response;
+      },
+      (error) => {
+        const failed = error instanceof RMQTimeoutError || error instanceof RMQRemoteError;
+        circuitBreaker.record(key, failed ? 'failure' : 'ignored');
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Send a request and iterate over a streamed response
+   * Chunks sent with `reply.write()` are yielded in order until `reply.end()`.
+   * `options.timeout` applies as an idle timeout between chunks.
+   */
+  public async *stream<T>(
+    routingKey: string,
+    message: any,
+    options: SendOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    this.assertNotShuttingDown();
+
+    const chunks: T[] = [];
+    let ended = false;
+    let stopped = false;
+    let failure = null as Error | null;
+    let outcome = null as { error: unknown } | null;
+    let wake: (() => void) | null = null;
+    let settle = null as (() => void) | null;
+    let cleanup = null as (() => void) | null;
+
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+    const finish = () => {
+      settle?.();
+      notify();
+    };
+    const fail = (error: Error) => {
+      failure ??= error;
+      finish();
+    };
+
+    // Chunks are yielded as they arrive; next() settles once the stream ended or failed
+    const open = async ({ routingKey, message, options }: ClientRequest): Promise<void> => {
+      if (stopped) return;
+
+      if (!this.channel || !this.isConnected) {
+        throw new RMQConnectionError('Client not connected. Call connect() first.');
+      }
+
+      if (!this.replyQueue) {
+        throw new RMQConnectionError('Reply queue not initialized.');
+      }
+
+      if (options.signal?.aborted) {
+        throw new RMQAbortError(`Stream from '${routingKey}' aborted`);
+      }
+
+      const channel = this.channel;
+      const replyTo = this.replyQueue;
+      const exchange = options.exchange ?? this.exchange;
+      await this.ensureExchange(channel, exchange);
+      const release = await this.acquireLimits(
+        this.scopedKey(exchange, routingKey),
+        options.signal,
+      );
+
+      // The signal may have fired while the exchange was asserted; its listener is not added yet
+      if (options.signal?.aborted) {
+        release();
+        throw new RMQAbortError(`Stream from '${routingKey}' aborted`);
+      }
+      if (stopped) {
+        release();
+        return;
+      }
+
+      const correlationId = uuidv4();
+      if (options.nestCompatible) {
+        message.id = correlationId; // for Nest.js compatibility
+      }
+
+      // Track this stream for graceful shutdown
+      const pending: { reject: (error: Error) => void; timer: NodeJS.Timeout | null } = {
+        reject: fail,
+        timer: null,
+      };
+      this.pendingRequests.set(correlationId, pending);
+
+      const resetIdleTimer = () => {
+        if (options.timeout === null || options.timeout === undefined) return;
+        if (pending.timer) clearTimeout(pending.timer);
+        pending.timer = setTimeout(() => {
+          fail(new RMQTimeoutError(`Stream idle for ${options.timeout}ms`));
+        }, options.timeout);
+      };
+
+      const onFrame = (content: string, properties: amqp.MessageProperties) => {
+        resetIdleTimer();
+        let payload: any;
+        try {
+          payload = JSON.parse(content);
+        } catch {
+          fail(new Error('Failed to parse response'));
+          return;
+        }
+
+        const frame = properties.headers?.['x-stream'];
+        if (properties.headers?.['x-rpc-error']) {
+          fail(new RMQRemoteError(payload));
+          return;
+        }
+        if (frame !== 'end') {
+          chunks.push(payload);
+        }
+        // A plain reply is a stream of exactly one chunk
+        if (frame !== 'data') {
+          ended = true;
+          finish();
+          return;
+        }
+        notify();
+      };
+
+      const onAbort = () => fail(new RMQAbortError(`Stream from '${routingKey}' aborted`));
+
+      this.responseEmitter.on(correlationId, onFrame);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      cleanup = () => {
+        release();
+        if (pending.timer) clearTimeout(pending.timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.responseEmitter.removeListener(correlationId, onFrame);
+        this.pendingRequests.delete(correlationId);
+        // Consumer stopped early or aborted - let the server stop producing
+        if (!ended && !(failure instanceof RMQRemoteError)) {
+          this.publishCancel(correlationId, exchange);
+        }
+      };
+
+      await publishMessage(
+        channel,
+        exchange,
+        routingKey,
+        Buffer.from(JSON.stringify(message)),
+        {
+          replyTo,
+          correlationId,
+          persistent: options.persistent ?? true,
+          headers: options.headers,
+          mandatory: options.mandatory ?? this.mandatory,
+          priority: options.priority,
+        },
+        this.confirm,
+      );
+      resetIdleTimer();
+
+      // Frames and failures before this point are picked up right away
+      const done = new Promise<void>((resolve, reject) => {
+        settle = () => (failure ? reject(failure) : resolve());
+      });
+      if (ended || failure || stopped) settle?.();
+      return done;
+    };
+
+    // An interceptor that skips next() ends the stream; its error fails the stream
+    this.interceptorManager
+      .run(this.createRequest('stream', routingKey, message, options), open)
+      .then(
+        () => {
+          outcome = { error: null };
+        },
+        (error) => {
+          outcome = { error };
+        },
+      )
+      .finally(notify);
+
+    try {
+      while (true) {
+        const chunk = chunks.shift();
+        if (chunk !== undefined) {
+          yield chunk;
+          continue;
+        }
+        if (outcome) {
+          if (outcome.error) throw outcome.error;
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
       }
+    } finally {
+      // The consumer may stop before the stream settled; interceptors' next() resolves then
+      stopped = true;
+      settle?.();
+      cleanup?.();
+    }
+  }
+
+  /**
+   * Scatter-gather: publish once and collect every reply sharing the correlationId
+   * Resolves when the window elapses, `maxReplies` replies arrived, or
+   * `expectedReplies` distinct instances replied - whichever comes first.
+   */
+  public async gather<T>(
+    routingKey: string,
+    message: any,
+    options: GatherOptions = {},
+  ): Promise<GatherReply<T>[]> {
+    this.assertNotShuttingDown();
+
+    return this.interceptorManager.run(
+      this.createRequest('gather', routingKey, message, options),
+      (request) => this.gatherReplies<T>(request.routingKey, request.message, request.options),
+    );
+  }
+
+  private async gatherReplies<T>(
+    routingKey: string,
+    message: any,
+    options: GatherOptions,
+  ): Promise<GatherReply<T>[]> {
+    if (!this.channel || !this.isConnected) {
+      throw new RMQConnectionError('Client not connected. Call connect() first.');
+    }
+
+    if (!this.replyQueue) {
+      throw new RMQConnectionError('Reply queue not initialized.');
+    }
+
+    const channel = this.channel;
+    const replyTo = this.replyQueue;
+    const correlationId = uuidv4();
+    const content = Buffer.from(JSON.stringify(message));
+    const window = options.window ?? 1000;
+    const exchange = options.exchange ?? this.exchange;
+    await this.ensureExchange(channel, exchange);
+    const release = await this.acquireLimits(this.scopedKey(exchange, routingKey));
+
+    const gathered = new Promise<GatherReply<T>[]>((resolve, reject) => {
+      const replies: GatherReply<T>[] = [];
+      const instances = new Set<string>();
+      const startedAt = Date.now();
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.responseEmitter.removeAllListeners(correlationId);
+        this.pendingRequests.delete(correlationId);
+      };
+
+      const finish = () => {
+        cleanup();
+        resolve(replies);
+      };
+
+      const timer = setTimeout(finish, window);
+      // Track this request for graceful shutdown and returned (unroutable) messages
+      this.pendingRequests.set(correlationId, {
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+        timer,
+      });
+
+      this.responseEmitter.on(
+        correlationId,
+        (content: string, properties: amqp.MessageProperties) => {
+          const headers = properties.headers ?? {};
+          const instanceId = headers['x-instance-id'];
+          const reply: GatherReply<T> = {
+            instanceId,
+            latencyMs: Date.now() - startedAt,
+            headers,
+          };
+          try {
+            const payload = JSON.parse(content);
+            if (headers['x-rpc-error']) {
+              reply.error = new RMQRemoteError(payload);
+            } else {
+              reply.content = payload;
+            }
+          } catch {
+            return; // Ignore unparseable replies
+          }
+
+          replies.push(reply);
+          if (instanceId) instances.add(instanceId);
+
+          if (
+            (options.maxReplies !== undefined && replies.length >= options.maxReplies) ||
+            (options.expectedReplies !== undefined && instances.size >= options.expectedReplies)
+          ) {
+            finish();
+          }
+        },
+      );
+
+      publishMessage(
+        channel,
+        exchange,
+        routingKey,
+        content,
+        {
+          replyTo,
+          correlationId,
+          persistent: options.persistent ?? true,
+          headers: options.headers,
+          mandatory: options.mandatory ?? this.mandatory,
+          priority: options.priority,
+        },
+        this.confirm,
+      ).catch((error) => {
+        cleanup();
+        reject(error instanceof Error ? error : new Error('Unknown error during publish'));
+      });
+    });
+
+    gathered.then(release, release);
+    return gathered;
+  }
+
+  /**
+   * Wait for a concurrency slot and a rate limit token
+   * @returns Function releasing the concurrency slot once the request has settled
+   */
+  private async acquireLimits(routingKey: string, signal?: AbortSignal): Promise<() => void> {
+    const release = this.concurrencyLimiter
+      ? await this.concurrencyLimiter.acquire(routingKey, signal)
+      : () => {};
+    try {
+      await this.rateLimiter?.acquire(routingKey, signal);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    return release;
+  }
+
+  /**
+   * Make sure a target exchange other than the client's own exists, on first use.
+   * It is asserted only when service() was given its declaration: asserting an existing
+   * exchange differently would close the channel and the reply queue with it.
+   * @throws RMQPublishError if an undeclared target exchange does not exist
+   */
+  private async ensureExchange(channel: amqp.Channel, exchange: string): Promise<void> {
+    if (exchange === this.exchange || this.assertedExchanges.has(exchange)) return;
+    const declaration = this.serviceExchanges.get(exchange);
+    if (declaration) {
+      await assertExchange(channel, exchange, declaration.type, declaration.options);
+    } else if (!(await exchangeExists(await this.connectionManager.getConnection(), exchange))) {
+      throw new RMQPublishError(
+        `Exchange '${exchange}' does not exist; pass exchangeType to service() to declare it`,
+      );
+    }
+    this.assertedExchanges.add(exchange);
+  }
+
+  /**
+   * Assert the delay exchange of a target exchange once per channel and return the options
+   * in effect for it. The delay queues are declared by the server, which owns the topology.
+   */
+  private async ensureDelayExchange(
+    channel: amqp.Channel,
+    exchange: string,
+  ): Promise<DelayedMessageOptions> {
+    const asserted = this.delayExchanges.get(exchange);
+    if (asserted) return asserted;
+    // The plugin is probed apart from this channel: a failed declaration would close it
+    const delayed = await resolveDelayedOptions(
+      this.connectionManager,
+      exchange,
+      this.delayedOptions,
+    );
+    if (delayed.strategy === 'ttl-queues') {
+      await assertDelayExchange(channel, exchange, delayed);
+    }
+    this.delayExchanges.set(exchange, delayed);
+    return delayed;
+  }
+
+  /**
+   * Key for per-routing-key state (circuit breaker, limits); other exchanges are prefixed
+   */
+  private scopedKey(exchange: string, routingKey: string): string {
+    return exchange === this.exchange ? routingKey : `${exchange}:${routingKey}`;
+  }
+
+  /**
+   * Tell servers on the exchange that nobody is waiting for this request anymore
+   */
+  private publishCancel(correlationId: string, exchange: string): void {
+    if (!this.channel || !this.isConnected) return;
+
+    publishMessage(
+      this.channel,
+      exchange,
+      RPC_CANCEL_ROUTING_KEY,
+      Buffer.from('{}'),
+      // The header routes the notice on a 'headers' exchange
+      { correlationId, headers: { [RPC_CANCEL_HEADER]: 'true' } },
+      this.confirm,
+    ).catch(() => {
+      // Best effort - the server will finish the request and its reply is ignored
     });
   }
 
+  /**
+   * Publish a message without waiting for a reply (fire-and-forget)
+   * Resolves once the message has been handed to the channel, or once the
+   * broker confirms it when `confirm` is enabled
+   */
+  public async publish(
+    routingKey: string,
+    message: any,
+    options: PublishOptions = {},
+  ): Promise<void> {
+    this.assertNotShuttingDown();
+
+    // Queue behind a running flush too, so nothing overtakes the buffered messages
+    if (this.offlineBuffer && (this.isReconnecting() || this.offlineBuffer.isFlushing)) {
+      return this.offlineBuffer.enqueue((dispatched) =>
+        this.publishIntercepted(routingKey, message, options, dispatched),
+      );
+    }
+
+    return this.publishIntercepted(routingKey, message, options);
+  }
+
+  private publishIntercepted(
+    routingKey: string,
+    message: any,
+    options: PublishOptions,
+    onDispatched?: () => void,
+  ): Promise<void> {
+    return this.interceptorManager.run(
+      this.createRequest('publish', routingKey, message, options),
+      (request) =>
+        this.publishNow(request.routingKey, request.message, request.options, onDispatched),
+    );
+  }
+
+  private async publishNow(
+    routingKey: string,
+    message: any,
+    options: PublishOptions,
+    onDispatched?: () => void,
+  ): Promise<void> {
+    if (!this.channel || !this.isConnected) {
+      throw new RMQConnectionError('Client not connected. Call connect() first.');
+    }
+
+    const exchange = options.exchange ?? this.exchange;
+    await this.ensureExchange(this.channel, exchange);
+    await this.rateLimiter?.acquire(this.scopedKey(exchange, routingKey));
+    if (!this.channel) {
+      throw new RMQConnectionError('Client not connected. Call connect() first.');
+    }
+
+    const deliverAt =
+      options.deliverAt instanceof Date ? options.deliverAt.getTime() : options.deliverAt;
+    const delayMs = Math.round(
+      options.delay ?? (deliverAt === undefined ? 0 : deliverAt - Date.now()),
+    );
+    if (delayMs > 0) {
+      const delayedOptions = await this.ensureDelayExchange(this.channel, exchange);
+      if (!this.channel) {
+        throw new RMQConnectionError('Client not connected. Call connect() first.');
+      }
+      const delayed = delayProperties(routingKey, delayMs, delayedOptions);
+      const published = publishMessage(
+        this.channel,
+        delayExchangeName(exchange),
+        routingKey,
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: options.persistent ?? true,
+          headers: { ...options.headers, ...delayed.headers },
+          expiration: delayed.expiration,
+          mandatory: options.mandatory ?? this.mandatory,
+          priority: options.priority,
+        },
+        this.confirm,
+      );
+      onDispatched?.();
+      await published;
+      return;
+    }
+
+    const published = publishMessage(
+      this.channel,
+      exchange,
+      routingKey,
+      Buffer.from(JSON.stringify(message)),
+      {
+        persistent: options.persistent ?? true,
+        headers: options.headers,
+        mandatory: options.mandatory ?? this.mandatory,
+        priority: options.priority,
+      },
+      this.confirm,
+    );
+    onDispatched?.();
+    await published;
+  }
+
+  /**
+   * Reject every request waiting for a reply
+   */
+  private rejectPending(error: Error): void {
+    for (const [correlationId, { timer, reject }] of [...this.pendingRequests]) {
+      if (timer) clearTimeout(timer);
+      this.responseEmitter.removeAllListeners(correlationId);
+      reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * Resend in-flight requests to the new reply queue after a reconnect
+   * Streams and gathers cannot be resumed and are rejected instead
+   */
+  private republishPending(): void {
+    for (const { republish, reject } of [...this.pendingRequests.values()]) {
+      if (republish) {
+        republish();
+      } else {
+        reject(new RMQConnectionError('Connection lost: request cannot be resent'));
+      }
+    }
+  }
+
+  /**
+   * Refuse new requests while shutdown() is draining
+   */
+  private assertNotShuttingDown(): void {
+    if (this.isShuttingDown) {
+      throw new RMQConnectionError('Client is shutting down');
+    }
+  }
+
+  /**
+   * Whether a previously connected client is waiting for the connection to come back.
+   * Includes the window after the connection is back but before channels are recreated,
+   * in which the connection manager already reports 'connected'.
+   */
+  private isReconnecting(): boolean {
+    return (
+      !this.isConnected && this.channel !== null && !this.isShuttingDown && !this.reconnectFailed
+    );
+  }
+
   /**
    * Gracefully shutdown the client
    * @param options.timeout - Max time to wait for pending requests (default: 5000ms)
-   * @param options.force - If true, reject all pending requests immediately (default: true)
+   * @param options.force - If true, reject all pending requests immediately (default: true).
+   *   If false, wait for replies until the timeout, then reject the rest
    * @returns ShutdownResult with success status and pending request count
    */
   public async shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    const timeout = options.timeout ?? 5000;
     const force = options.force ?? true;
 
+    // Stop accepting new requests
+    this.isShuttingDown = true;
     this.isConnected = false;
 
-    // Reject all pending requests
-    if (force) {
-      for (const [correlationId, { timer, reject }] of this.pendingRequests) {
-        if (timer) clearTimeout(timer);
-        this.responseEmitter.removeAllListeners(correlationId);
-        reject(new Error('Client shutdown: request cancelled'));
+    // Requests that were never sent cannot complete
+    const bufferedCount =
+      this.offlineBuffer?.clear(
+        new RMQConnectionError('Client shutdown: buffered message discarded'),
+      ) ?? 0;
+    const limitedError = new RMQConnectionError('Client shutdown: queued request cancelled');
+    const limitedCount =
+      (this.concurrencyLimiter?.clear(limitedError) ?? 0) +
+      (this.rateLimiter?.clear(limitedError) ?? 0);
+
+    // Wait for outstanding replies (unless force)
+    let timedOut = false;
+    if (!force && this.pendingRequests.size > 0) {
+      const startTime = Date.now();
+
+      while (this.pendingRequests.size > 0) {
+        const remaining = timeout - (Date.now() - startTime);
+        if (remaining <= 0) {
+          timedOut = true;
+          console.warn(
+            `[RMQClient] Shutdown timeout: ${this.pendingRequests.size} requests still pending`,
+          );
+          break;
+        }
+        await new Promise((r) => setTimeout(r, Math.min(100, remaining)));
       }
     }
 
-    const pendingCount = this.pendingRequests.size;
-    this.pendingRequests.clear();
+    // Reject whatever is still waiting for a reply
+    const pendingCount = this.pendingRequests.size + bufferedCount + limitedCount;
+    this.rejectPending(new RMQConnectionError('Client shutdown: request cancelled'));
 
     // Close channel
     if (this.channel) {
       this.connectionManager.unregisterChannel(this.channel);
+      if (this.stableReplyQueue) {
+        try {
+          await this.channel.deleteQueue(this.stableReplyQueue);
+        } catch {
+          // Queue expires on its own
+        }
+      }
       try {
         await this.channel.close();
       } catch {
@@ -206,11 +1258,12 @@ export class RMQClient extends EventEmitter implements IRMQClient {
       this.channel = null;
       this.replyQueue = null;
     }
+    this.isShuttingDown = false;
 
     return {
-      success: true,
+      success: !timedOut,
       pendingCount,
-      timedOut: false,
+      timedOut,
     };
   }
 
@@ -229,6 +1282,81 @@ export class RMQClient extends EventEmitter implements IRMQClient {
     return this.isConnected;
   }
 
+  /**
+   * Get number of messages waiting in the offline buffer
+   */
+  public getBufferedCount(): number {
+    return this.offlineBuffer?.size ?? 0;
+  }
+
+  /**
+   * Get requests in flight and requests waiting on the concurrency and rate limiters
+   */
+  public getLimiterStats(): LimiterStats {
+    return {
+      inFlight: this.pendingRequests.size,
+      waitingForSlot: this.concurrencyLimiter?.queueLength ?? 0,
+      waitingForRate: this.rateLimiter?.queueLength ?? 0,
+    };
+  }
+
+  /**
+   * Drop all cached replies
+   */
+  public async clearCache(): Promise<void> {
+    await this.replyCache?.clear();
+  }
+
+  /**
+   * Get circuit breaker state for a routing key
+   * @param exchange - Target exchange, defaults to the client's exchange
+   */
+  public getCircuitState(routingKey: string, exchange: string = this.exchange): CircuitState {
+    return this.circuitBreaker?.getState(this.scopedKey(exchange, routingKey)) ?? 'closed';
+  }
+
+  /**
+   * Add an interceptor around outgoing send(), publish(), stream() and gather() calls
+   */
+  public use(interceptor: ClientInterceptor): void {
+    this.interceptorManager.use(interceptor);
+  }
+
+  private createRequest(
+    operation: ClientRequest['operation'],
+    routingKey: string,
+    message: any,
+    options: SendOptions | PublishOptions | GatherOptions,
+  ): ClientRequest {
+    return {
+      operation,
+      routingKey,
+      message,
+      options: { ...options, headers: { ...options.headers } },
+    };
+  }
+
+  /**
+   * Scoped client for another service's exchange, sharing this client's channel and reply queue
+   * @param options.contract - Contract of the target service: types `send()` and validates replies
+   */
+  public service<S extends ContractDefinition = ContractDefinition>(
+    exchange: string,
+    options: ServiceOptions<S> = {},
+  ): RMQServiceClient<S> {
+    validateExchange(exchange);
+    if (options.exchangeType || options.exchangeOptions) {
+      this.serviceExchanges.set(exchange, {
+        type: options.exchangeType ?? 'direct',
+        options: { durable: true, ...options.exchangeOptions },
+      });
+    }
+    if (options.contract) {
+      this.serviceContracts.set(exchange, options.contract);
+    }
+    return new RMQServiceClient<S>(this, exchange);
+  }
+
   /**
    * Get connection state
    */
@@ -237,8 +1365,10 @@ export class RMQClient extends EventEmitter implements IRMQClient {
   }
 }
 
-export async function createRMQClient(options: RMQClientOptions): Promise<RMQClient> {
-  const client = new RMQClient(options);
+export async function createRMQClient<C extends ContractDefinition = ContractDefinition>(
+  options: RMQClientOptions<C>,
+): Promise<RMQClient<C>> {
+  const client = new RMQClient<C>(options);
   await client.connect();
   return client;
 }
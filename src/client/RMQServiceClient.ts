@@ -0,0 +1,58 @@
+// ./src/client/RMQServiceClient.ts
+
+import type {
+  GatherOptions,
+  GatherReply,
+  RMQServiceClient as IRMQServiceClient,
+  PublishOptions,
+  SendOptions,
+} from '../interfaces/client';
+import type { ContractDefinition, ReplyOf, RequestOf, RoutingKeyOf } from '../interfaces/contract';
+import type { RMQClient } from './RMQClient';
+
+/**
+ * Targets another service's exchange through the channel and reply queue of an RMQClient.
+ * The exchange is checked on first use, or asserted if service() was given its declaration.
+ */
+export class RMQServiceClient<C extends ContractDefinition = ContractDefinition>
+  implements IRMQServiceClient<C>
+{
+  public readonly exchange: string;
+  private client: RMQClient;
+
+  constructor(client: RMQClient, exchange: string) {
+    this.client = client;
+    this.exchange = exchange;
+  }
+
+  /**
+   * Send an RPC request to the service; with a contract, the reply is validated before it is cached
+   */
+  public send<T = never, K extends RoutingKeyOf<C> = RoutingKeyOf<C>>(
+    routingKey: K,
+    message: RequestOf<C, K>,
+    options: SendOptions = {},
+  ): Promise<ReplyOf<C, K, T>> {
+    return this.client.send(routingKey, message, { ...options, exchange: this.exchange });
+  }
+
+  public publish(routingKey: string, message: any, options: PublishOptions = {}): Promise<void> {
+    return this.client.publish(routingKey, message, { ...options, exchange: this.exchange });
+  }
+
+  public stream<T>(
+    routingKey: string,
+    message: any,
+    options: SendOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    return this.client.stream<T>(routingKey, message, { ...options, exchange: this.exchange });
+  }
+
+  public gather<T>(
+    routingKey: string,
+    message: any,
+    options: GatherOptions = {},
+  ): Promise<GatherReply<T>[]> {
+    return this.client.gather<T>(routingKey, message, { ...options, exchange: this.exchange });
+  }
+}
@@ -0,0 +1,117 @@
+// src/core/CircuitBreaker.ts
+
+import type { CircuitBreakerOptions, CircuitState } from '../interfaces/client';
+
+export type CircuitOutcome = 'success' | 'failure' | 'ignored';
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  /** Start times of trial requests still in flight */
+  trials: number[];
+}
+
+/**
+ * Per-key circuit breaker
+ * - closed: requests pass; `failureThreshold` consecutive failures open the circuit
+ * - open: requests fail fast until `resetTimeoutMs` has elapsed
+ * - half-open: up to `halfOpenMaxRequests` trial requests pass; a success closes
+ *   the circuit, a failure opens it again. A trial without an outcome after
+ *   `resetTimeoutMs` frees its slot, so a request that never settles cannot hold it.
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private circuits: Map<string, Circuit> = new Map();
+  private onStateChange: (key: string, state: CircuitState, previous: CircuitState) => void;
+
+  constructor(
+    options: CircuitBreakerOptions,
+    onStateChange: (key: string, state: CircuitState, previous: CircuitState) => void,
+  ) {
+    this.options = options;
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * Get the current state for a key
+   */
+  public getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit) return 'closed';
+    if (circuit.state === 'open' && this.isResetDue(circuit)) return 'half-open';
+    return circuit.state;
+  }
+
+  /**
+   * Check whether a request may proceed, reserving a trial slot when half-open
+   */
+  public tryAcquire(key: string): boolean {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') return true;
+
+    if (circuit.state === 'open') {
+      if (!this.isResetDue(circuit)) return false;
+      this.transition(key, circuit, 'half-open');
+    }
+
+    const now = Date.now();
+    circuit.trials = circuit.trials.filter(
+      (startedAt) => now - startedAt < this.options.resetTimeoutMs,
+    );
+    if (circuit.trials.length >= this.options.halfOpenMaxRequests) return false;
+    circuit.trials.push(now);
+    return true;
+  }
+
+  /**
+   * Record the outcome of a request that passed tryAcquire()
+   */
+  public record(key: string, outcome: CircuitOutcome): void {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      if (outcome !== 'failure') return;
+      circuit = { state: 'closed', failures: 0, openedAt: 0, trials: [] };
+      this.circuits.set(key, circuit);
+    }
+
+    if (circuit.state === 'half-open') {
+      circuit.trials.shift();
+      if (outcome === 'success') {
+        this.transition(key, circuit, 'closed');
+      } else if (outcome === 'failure') {
+        this.transition(key, circuit, 'open');
+      }
+      return;
+    }
+
+    if (circuit.state === 'closed') {
+      if (outcome === 'success') {
+        circuit.failures = 0;
+      } else if (outcome === 'failure') {
+        circuit.failures++;
+        if (circuit.failures >= this.options.failureThreshold) {
+          this.transition(key, circuit, 'open');
+        }
+      }
+    }
+  }
+
+  private isResetDue(circuit: Circuit): boolean {
+    return Date.now() - circuit.openedAt >= this.options.resetTimeoutMs;
+  }
+
+  private transition(key: string, circuit: Circuit, state: CircuitState): void {
+    const previous = circuit.state;
+    circuit.state = state;
+    circuit.failures = 0;
+    circuit.trials = [];
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+    }
+    if (state === 'closed') {
+      this.circuits.delete(key);
+    }
+    this.onStateChange(key, state, previous);
+  }
+}
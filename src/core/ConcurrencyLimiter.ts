@@ -0,0 +1,129 @@
+// src/core/ConcurrencyLimiter.ts
+
+import { RMQAbortError, RMQLimitExceededError } from '../errors';
+import type { ConcurrencyLimitOptions } from '../interfaces/client';
+
+interface Waiter {
+  key: string;
+  grant: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Caps requests in flight, globally and per routing key.
+ * Requests over the limit wait in a FIFO queue or are rejected right away;
+ * a waiter blocked by its own key's limit does not hold up other keys.
+ */
+export class ConcurrencyLimiter {
+  private options: ConcurrencyLimitOptions;
+  private inFlight = 0;
+  private inFlightByKey: Map<string, number> = new Map();
+  private waiters: Waiter[] = [];
+
+  constructor(options: ConcurrencyLimitOptions) {
+    this.options = options;
+  }
+
+  public get active(): number {
+    return this.inFlight;
+  }
+
+  public get queueLength(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Take a slot for a request, waiting for one if the behavior allows it
+   * @returns Function releasing the slot; calling it more than once is a no-op
+   */
+  public acquire(key: string, signal?: AbortSignal): Promise<() => void> {
+    return new Promise<() => void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RMQAbortError(`Request to '${key}' aborted`));
+        return;
+      }
+
+      // Waiters are drained on every release, so any still queued are blocked by their own key
+      if (this.hasCapacity(key)) {
+        resolve(this.take(key));
+        return;
+      }
+
+      if (this.options.behavior === 'reject' || this.waiters.length >= this.options.maxQueueSize) {
+        reject(new RMQLimitExceededError(key, 'concurrency'));
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new RMQAbortError(`Request to '${key}' aborted while waiting for a slot`));
+      };
+      const waiter: Waiter = {
+        key,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.take(key));
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Reject all waiting requests
+   * @returns Number of requests that were discarded
+   */
+  public clear(error: Error): number {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(error);
+    }
+    return waiters.length;
+  }
+
+  private hasCapacity(key: string): boolean {
+    return (
+      this.inFlight < this.options.maxInFlight &&
+      (this.inFlightByKey.get(key) ?? 0) < this.options.maxInFlightPerKey
+    );
+  }
+
+  private take(key: string): () => void {
+    this.inFlight++;
+    this.inFlightByKey.set(key, (this.inFlightByKey.get(key) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      this.inFlight--;
+      const count = (this.inFlightByKey.get(key) ?? 1) - 1;
+      if (count > 0) {
+        this.inFlightByKey.set(key, count);
+      } else {
+        this.inFlightByKey.delete(key);
+      }
+      this.drain();
+    };
+  }
+
+  private drain(): void {
+    let i = 0;
+    while (i < this.waiters.length && this.inFlight < this.options.maxInFlight) {
+      const waiter = this.waiters[i];
+      if (this.hasCapacity(waiter.key)) {
+        this.waiters.splice(i, 1);
+        waiter.grant();
+      } else {
+        i++;
+      }
+    }
+  }
+}
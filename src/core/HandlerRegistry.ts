@@ -6,22 +6,182 @@ export interface RegisteredHandler {
   options: HandlerOptions;
 }
 
+export interface HandlerMatch extends RegisteredHandler {
+  /** Routing key pattern the handler was registered with */
+  pattern: string;
+  /** Words matched by `*`, `#` and parameter segments, in order; `#` matches are joined with '.' */
+  wildcards: string[];
+  /** Words matched by named parameters like `:tenantId` */
+  params: Record<string, string>;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  pattern?: string;
+}
+
+function isParam(word: string): boolean {
+  return word.length > 1 && word.startsWith(':');
+}
+
+/**
+ * Whether a routing key uses AMQP topic wildcards (`*` for one word, `#` for zero or more)
+ * or named parameters (`:name`, one word)
+ */
+export function isWildcardPattern(routingKey: string): boolean {
+  return routingKey.split('.').some((word) => word === '*' || word === '#' || isParam(word));
+}
+
+/**
+ * Broker binding key of a pattern: named parameters bind as `*`
+ */
+export function toBindingKey(pattern: string): string {
+  return pattern
+    .split('.')
+    .map((word) => (isParam(word) ? '*' : word))
+    .join('.');
+}
+
+/**
+ * Whether message headers satisfy a handler's `bindingHeaders` the way a headers exchange
+ * binding does; like the broker, keys starting with `x-` take no part
+ */
+export function matchesHeaders(
+  { bindingHeaders = {}, headersMatch = 'all' }: HandlerOptions,
+  headers: Record<string, unknown>,
+): boolean {
+  const matches = ([key, value]: [string, unknown]) => headers[key] === value;
+  const entries = Object.entries(bindingHeaders).filter(([key]) => !key.startsWith('x-'));
+  return headersMatch === 'any' ? entries.some(matches) : entries.every(matches);
+}
+
 export class HandlerRegistry {
   private handlers: Map<string, RegisteredHandler> = new Map();
+  // Wildcard patterns by word; exact routing keys are looked up in `handlers` directly
+  private trie: TrieNode = { children: new Map() };
 
+  /**
+   * @throws Error if the pattern binds like an already registered one, e.g. `a.:id` and `a.*`
+   */
   public register(
     routingKey: string,
     handler: HandlerFunction,
     options: HandlerOptions = {},
   ): void {
+    if (!isWildcardPattern(routingKey)) {
+      this.handlers.set(routingKey, { handler, options });
+      return;
+    }
+
+    let node = this.trie;
+    for (const word of toBindingKey(routingKey).split('.')) {
+      let child = node.children.get(word);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(word, child);
+      }
+      node = child;
+    }
+    if (node.pattern !== undefined && node.pattern !== routingKey) {
+      throw new Error(`Routing key '${routingKey}' conflicts with '${node.pattern}'`);
+    }
+    node.pattern = routingKey;
     this.handlers.set(routingKey, { handler, options });
   }
 
+  /**
+   * Handler registered under exactly this routing key or pattern; use `match()` for incoming messages
+   */
   public getHandler(routingKey: string): RegisteredHandler | undefined {
     return this.handlers.get(routingKey);
   }
 
+  /**
+   * Find the most specific handler for a routing key among those `accept` allows.
+   * Word by word, an exact word beats `*`, and `*` beats `#`.
+   */
+  public match(
+    routingKey: string,
+    accept: (registered: RegisteredHandler) => boolean = () => true,
+  ): HandlerMatch | undefined {
+    const exact = this.handlers.get(routingKey);
+    if (exact && !isWildcardPattern(routingKey) && accept(exact)) {
+      return { ...exact, pattern: routingKey, wildcards: [], params: {} };
+    }
+
+    const found = this.search(this.trie, routingKey.split('.'), 0, [], accept);
+    if (!found) return undefined;
+
+    const registered = this.handlers.get(found.pattern);
+    if (!registered) return undefined;
+
+    // Captures line up with the pattern's wildcard and parameter words
+    const params: Record<string, string> = {};
+    const captureWords = found.pattern
+      .split('.')
+      .filter((word) => word === '*' || word === '#' || isParam(word));
+    captureWords.forEach((word, i) => {
+      if (isParam(word)) params[word.slice(1)] = found.wildcards[i];
+    });
+    return { ...registered, ...found, params };
+  }
+
+  /**
+   * Find the handler among those `accept` allows whose `bindingHeaders` match the headers,
+   * for a 'headers' exchange. The one registered under the routing key wins, then the first.
+   */
+  public matchHeaders(
+    routingKey: string,
+    headers: Record<string, unknown>,
+    accept: (registered: RegisteredHandler) => boolean = () => true,
+  ): HandlerMatch | undefined {
+    const candidates = Array.from(this.handlers).filter(
+      ([, registered]) => accept(registered) && matchesHeaders(registered.options, headers),
+    );
+    const [pattern, registered] =
+      candidates.find(([key]) => key === routingKey) ?? candidates[0] ?? [];
+    if (pattern === undefined || !registered) return undefined;
+
+    return { ...registered, pattern, wildcards: [], params: {} };
+  }
+
   public getRoutingKeys(): string[] {
     return Array.from(this.handlers.keys());
   }
+
+  private search(
+    node: TrieNode,
+    words: string[],
+    index: number,
+    wildcards: string[],
+    accept: (registered: RegisteredHandler) => boolean,
+  ): { pattern: string; wildcards: string[] } | undefined {
+    if (index === words.length && node.pattern !== undefined) {
+      const registered = this.handlers.get(node.pattern);
+      if (registered && accept(registered)) return { pattern: node.pattern, wildcards };
+    }
+
+    if (index < words.length) {
+      const literal = node.children.get(words[index]);
+      const found = literal && this.search(literal, words, index + 1, wildcards, accept);
+      if (found) return found;
+
+      const star = node.children.get('*');
+      const starFound =
+        star && this.search(star, words, index + 1, [...wildcards, words[index]], accept);
+      if (starFound) return starFound;
+    }
+
+    // Shortest match first, leaving the remaining words to more specific segments
+    const hash = node.children.get('#');
+    if (hash) {
+      for (let end = index; end <= words.length; end++) {
+        const matched = words.slice(index, end).join('.');
+        const found = this.search(hash, words, end, [...wildcards, matched], accept);
+        if (found) return found;
+      }
+    }
+
+    return undefined;
+  }
 }
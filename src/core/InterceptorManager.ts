@@ -0,0 +1,23 @@
+// src/core/InterceptorManager.ts
+
+import type { ClientInterceptor, ClientRequest } from '../interfaces/client';
+
+/**
+ * Runs client interceptors in registration order around an outgoing call
+ */
+export class InterceptorManager {
+  private interceptors: ClientInterceptor[] = [];
+
+  public use(interceptor: ClientInterceptor): void {
+    this.interceptors.push(interceptor);
+  }
+
+  public run<T>(request: ClientRequest, call: (request: ClientRequest) => Promise<T>): Promise<T> {
+    const dispatch = (index: number): Promise<T> =>
+      index < this.interceptors.length
+        ? this.interceptors[index](request, () => dispatch(index + 1))
+        : call(request);
+
+    return dispatch(0);
+  }
+}
@@ -0,0 +1,54 @@
+// src/core/LRUCacheStore.ts
+
+import type { CacheStore } from '../interfaces/client';
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache store evicting the least recently used entry once full.
+ * Relies on Map keeping insertion order: entries are re-inserted on every hit.
+ */
+export class LRUCacheStore implements CacheStore {
+  private maxEntries: number;
+  private entries: Map<string, Entry> = new Map();
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  public set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
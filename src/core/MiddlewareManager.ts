@@ -1,4 +1,9 @@
-import type { HandlerContext, HandlerFunction, ReplyFunction } from '../interfaces';
+import type {
+  HandlerContext,
+  HandlerFunction,
+  ReplyFunction,
+  StreamingReplyFunction,
+} from '../interfaces';
 
 export type MiddlewareFunction = (
   context: HandlerContext,
@@ -22,7 +27,8 @@ export class MiddlewareManager {
         if (index < this.middlewares.length) {
           await this.middlewares[index](context, run, reply);
         } else {
-          await handler(context, reply);
+          // The server passes handler contexts and streaming replies down the chain
+          await handler(context as Parameters<HandlerFunction>[0], reply as StreamingReplyFunction);
         }
       };
 
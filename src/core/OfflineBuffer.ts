@@ -0,0 +1,112 @@
+// src/core/OfflineBuffer.ts
+
+import { RMQPublishError, RMQTimeoutError } from '../errors';
+import type { OfflineBufferOptions } from '../interfaces/client';
+
+/**
+ * A deferred operation. It calls `dispatched` once its message is handed to the channel,
+ * which lets the next operation start without waiting for a reply.
+ */
+export type BufferedOperationFn<T> = (dispatched: () => void) => Promise<T>;
+
+interface BufferedOperation {
+  /** Settles once the operation has dispatched its message or has settled itself */
+  run: () => Promise<void>;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Bounded FIFO of publish operations deferred while the connection is down.
+ * Operations are replayed in order by flush(), each one after the previous has
+ * dispatched its message; entries older than maxAgeMs are rejected with RMQTimeoutError.
+ */
+export class OfflineBuffer {
+  private options: OfflineBufferOptions;
+  private entries: BufferedOperation[] = [];
+  private flushing = false;
+
+  constructor(options: OfflineBufferOptions) {
+    this.options = options;
+  }
+
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Whether flush() is replaying operations; new operations must queue behind them
+   */
+  public get isFlushing(): boolean {
+    return this.flushing;
+  }
+
+  /**
+   * Defer an operation until flush(); the returned promise settles with the operation's result
+   */
+  public enqueue<T>(operation: BufferedOperationFn<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (this.entries.length >= this.options.maxSize) {
+        if (this.options.overflow === 'reject-new') {
+          reject(new RMQPublishError('Offline buffer is full'));
+          return;
+        }
+        const oldest = this.entries.shift();
+        if (oldest) {
+          clearTimeout(oldest.timer);
+          oldest.reject(new RMQPublishError('Dropped from full offline buffer'));
+        }
+      }
+
+      const entry: BufferedOperation = {
+        run: () =>
+          new Promise<void>((dispatched) => {
+            operation(dispatched).then(resolve, reject).finally(dispatched);
+          }),
+        reject,
+        timer: setTimeout(() => {
+          this.entries = this.entries.filter((e) => e !== entry);
+          reject(
+            new RMQTimeoutError(
+              `Buffered message expired after ${this.options.maxAgeMs}ms while reconnecting`,
+            ),
+          );
+        }, this.options.maxAgeMs),
+      };
+      this.entries.push(entry);
+    });
+  }
+
+  /**
+   * Replay all buffered operations in the order they were enqueued,
+   * including those enqueued while flushing
+   */
+  public async flush(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      let entry = this.entries.shift();
+      while (entry) {
+        clearTimeout(entry.timer);
+        await entry.run();
+        entry = this.entries.shift();
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Reject all buffered operations
+   * @returns Number of operations that were discarded
+   */
+  public clear(error: Error): number {
+    const entries = this.entries;
+    this.entries = [];
+    for (const entry of entries) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+    return entries.length;
+  }
+}
@@ -5,6 +5,7 @@ import amqp, { type Channel, type Connection } from 'amqplib';
 import type { ConnectionManager } from '../interfaces/common';
 import {
   AMQP_NON_RECOVERABLE_ERRORS,
+  type ChannelOptions,
   type ChannelSetupFn,
   type ConnectionManagerOptions,
   type ConnectionState,
@@ -302,7 +303,7 @@ export class RMQConnectionManager extends EventEmitter implements ConnectionMana
 
     for (const registered of this.registeredChannels) {
       try {
-        const channel = await this.connection.createChannel();
+        const channel = await this.openChannel(this.connection, registered.confirm);
         registered.channel = channel;
 
         // Setup channel error handlers
@@ -324,12 +325,16 @@ export class RMQConnectionManager extends EventEmitter implements ConnectionMana
   /**
    * Create a channel with optional setup function
    * The setup function will be called on initial creation and after each reconnect
+   * Pass `{ confirm: true }` to open a confirm channel (publisher confirms)
    */
-  public async createChannel(setup?: ChannelSetupFn): Promise<Channel> {
+  public async createChannel(
+    setup?: ChannelSetupFn,
+    options: ChannelOptions = {},
+  ): Promise<Channel> {
     const connection = await this.getConnection();
-    const channel = await connection.createChannel();
+    const channel = await this.openChannel(connection, options.confirm);
 
-    const registered: RegisteredChannel = { channel, setup };
+    const registered: RegisteredChannel = { channel, setup, confirm: options.confirm };
     this.registeredChannels.add(registered);
 
     // Setup channel error handlers
@@ -343,6 +348,13 @@ export class RMQConnectionManager extends EventEmitter implements ConnectionMana
     return channel;
   }
 
+  /**
+   * Open a plain or confirm channel on the given connection
+   */
+  private async openChannel(connection: Connection, confirm?: boolean): Promise<Channel> {
+    return confirm ? connection.createConfirmChannel() : connection.createChannel();
+  }
+
   /**
    * Setup channel event listeners
    */
@@ -372,7 +384,7 @@ export class RMQConnectionManager extends EventEmitter implements ConnectionMana
     }
 
     try {
-      const channel = await this.connection.createChannel();
+      const channel = await this.openChannel(this.connection, registered.confirm);
       registered.channel = channel;
 
       this.setupChannelListeners(channel, registered);
@@ -385,6 +397,22 @@ export class RMQConnectionManager extends EventEmitter implements ConnectionMana
     }
   }
 
+  /**
+   * Run `fn` on a short-lived connection of its own, for broker operations whose failure
+   * closes the connection they run on. The connection is closed afterwards.
+   */
+  public async withScratchConnection<T>(fn: (connection: Connection) => Promise<T>): Promise<T> {
+    const connection = await this.connectWithTimeout();
+    connection.on('error', () => {
+      // Expected when `fn` makes the broker close the connection
+    });
+    try {
+      return await fn(connection);
+    } finally {
+      await connection.close().catch(() => {});
+    }
+  }
+
   /**
    * Remove channel from registry
    */
@@ -0,0 +1,117 @@
+// src/core/RateLimiter.ts
+
+import { RMQAbortError, RMQLimitExceededError } from '../errors';
+import type { RateLimitOptions } from '../interfaces/client';
+
+interface Waiter {
+  grant: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Token bucket for outgoing messages: refills at ratePerSecond up to burst.
+ * Messages without a token wait in a FIFO queue or are rejected right away.
+ */
+export class RateLimiter {
+  private options: RateLimitOptions;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiters: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+    this.tokens = options.burst;
+  }
+
+  public get queueLength(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Take a token for one message, waiting for one if the behavior allows it
+   */
+  public acquire(key: string, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RMQAbortError(`Request to '${key}' aborted`));
+        return;
+      }
+
+      this.refill();
+      if (this.waiters.length === 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        resolve();
+        return;
+      }
+
+      if (this.options.behavior === 'reject' || this.waiters.length >= this.options.maxQueueSize) {
+        reject(new RMQLimitExceededError(key, 'rate'));
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new RMQAbortError(`Request to '${key}' aborted while rate limited`));
+      };
+      const waiter: Waiter = {
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Reject all waiting messages
+   * @returns Number of messages that were discarded
+   */
+  public clear(error: Error): number {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(error);
+    }
+    return waiters.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) * this.options.ratePerSecond) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wake up when the next token is due and hand tokens to waiters in order
+   */
+  private schedule(): void {
+    if (this.timer || this.waiters.length === 0) return;
+
+    const delay = Math.ceil(((1 - this.tokens) * 1000) / this.options.ratePerSecond);
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        this.refill();
+        while (this.waiters.length > 0 && this.tokens >= 1) {
+          this.tokens -= 1;
+          this.waiters.shift()?.grant();
+        }
+        this.schedule();
+      },
+      Math.max(0, delay),
+    );
+  }
+}
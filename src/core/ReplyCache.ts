@@ -0,0 +1,86 @@
+// src/core/ReplyCache.ts
+
+import { createHash } from 'node:crypto';
+import type { CacheOptions, CacheStore } from '../interfaces/client';
+import { LRUCacheStore } from './LRUCacheStore';
+
+/**
+ * JSON with object keys sorted, so equal payloads hash the same regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  const fields = Object.keys(obj)
+    .filter((key) => obj[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(obj[key])}`);
+  return `{${fields.join(',')}}`;
+}
+
+/**
+ * Caches replies of idempotent routes and lets identical concurrent requests
+ * share one in-flight call (singleflight).
+ * Replies are copied in and out, so a caller mutating its reply cannot change what others get.
+ */
+export class ReplyCache {
+  private options: CacheOptions;
+  private store: CacheStore;
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options: CacheOptions) {
+    this.options = options;
+    this.store = options.store ?? new LRUCacheStore(options.maxEntries);
+  }
+
+  /**
+   * Configured TTL of a routing key, or undefined if its replies are not cached
+   */
+  public ttlFor(routingKey: string): number | undefined {
+    const ttlMs = this.options.routes[routingKey];
+    return typeof ttlMs === 'number' ? ttlMs : undefined;
+  }
+
+  /**
+   * Cache key of a request. Headers are part of it: they can change the reply,
+   * e.g. a tenant header added by an interceptor.
+   */
+  public keyFor(
+    routingKey: string,
+    message: unknown,
+    headers: Record<string, unknown> = {},
+  ): string {
+    const hash = createHash('sha1').update(stableStringify({ message, headers })).digest('hex');
+    return `${routingKey}:${hash}`;
+  }
+
+  public async get(key: string): Promise<unknown> {
+    return structuredClone(await this.store.get(key));
+  }
+
+  public async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    await this.store.set(key, structuredClone(value), ttlMs);
+  }
+
+  /**
+   * Run `load` unless an identical request is already in flight, in which case share its result
+   */
+  public coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.options.coalesce) return load();
+
+    const existing = this.inFlight.get(key);
+    if (existing) return existing.then((value) => structuredClone(value as T));
+
+    const request = load().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  public async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
@@ -0,0 +1,39 @@
+// src/core/RetryBudget.ts
+
+import type { RetryBudgetOptions } from '../interfaces/client';
+
+/**
+ * Client-wide token bucket limiting retries to a fraction of requests.
+ * Every request deposits `ratio` tokens, every retry withdraws one, so during
+ * an outage retries cannot multiply the load on the broker or the consumers.
+ */
+export class RetryBudget {
+  private options: RetryBudgetOptions;
+  private tokens: number;
+
+  constructor(options: RetryBudgetOptions) {
+    this.options = options;
+    this.tokens = options.maxTokens;
+  }
+
+  /**
+   * Record a request
+   */
+  public deposit(): void {
+    this.tokens = Math.min(this.options.maxTokens, this.tokens + this.options.ratio);
+  }
+
+  /**
+   * Spend one token for a retry
+   * @returns false if the budget is exhausted
+   */
+  public tryWithdraw(): boolean {
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  public getTokens(): number {
+    return this.tokens;
+  }
+}
@@ -19,3 +19,31 @@ export class RMQTimeoutError extends RMQBaseError {
     super(message);
   }
 }
+
+export class RMQAbortError extends RMQBaseError {
+  constructor(message: string = 'Operation aborted') {
+    super(message);
+  }
+}
+
+export class RMQCircuitOpenError extends RMQBaseError {
+  public readonly routingKey: string;
+
+  constructor(routingKey: string) {
+    super(`Circuit open for routing key '${routingKey}'`);
+    this.routingKey = routingKey;
+  }
+}
+
+export class RMQLimitExceededError extends RMQBaseError {
+  public readonly routingKey: string;
+  public readonly limit: 'concurrency' | 'rate';
+
+  constructor(routingKey: string, limit: 'concurrency' | 'rate') {
+    super(
+      `${limit === 'rate' ? 'Rate' : 'Concurrency'} limit exceeded for routing key '${routingKey}'`,
+    );
+    this.routingKey = routingKey;
+    this.limit = limit;
+  }
+}
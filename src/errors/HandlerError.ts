@@ -1,14 +1,71 @@
 // ./src/errors/HanlderError.ts
+import type { RemoteErrorPayload } from '../interfaces/common';
 import { RMQBaseError } from './BaseError';
 
 export class RMQHandlerError extends RMQBaseError {
-  constructor(message: string = 'Error occurred while handling the message') {
+  public readonly code?: string | number;
+  public readonly details?: unknown;
+
+  constructor(
+    message: string = 'Error occurred while handling the message',
+    options: { code?: string | number; details?: unknown } = {},
+  ) {
     super(message);
+    this.code = options.code;
+    this.details = options.details;
   }
 }
 
 export class RMQPublishError extends RMQBaseError {
-  constructor(message: string = 'Failed to publish the message') {
+  public readonly routingKey?: string;
+
+  constructor(message: string = 'Failed to publish the message', routingKey?: string) {
     super(message);
+    this.routingKey = routingKey;
+  }
+}
+
+/**
+ * Mandatory message returned by the broker because no queue was bound for its routing key
+ */
+export class RMQUnroutableError extends RMQBaseError {
+  public readonly routingKey: string;
+
+  constructor(routingKey: string) {
+    super(`No queue bound for routing key '${routingKey}'`);
+    this.routingKey = routingKey;
+  }
+}
+
+/**
+ * Message content rejected by a contract validator
+ */
+export class RMQValidationError extends RMQBaseError {
+  public readonly code = 'VALIDATION_FAILED';
+  public readonly routingKey: string;
+  /** Error thrown by the validator */
+  public readonly details?: unknown;
+
+  constructor(message: string, routingKey: string, details?: unknown) {
+    super(message);
+    this.routingKey = routingKey;
+    this.details = details instanceof Error ? details.message : details;
+  }
+}
+
+/**
+ * Rejection for an RPC whose remote handler failed
+ * Carries the error envelope replied by the server
+ */
+export class RMQRemoteError extends RMQBaseError {
+  public readonly remoteName: string;
+  public readonly code?: string | number;
+  public readonly details?: unknown;
+
+  constructor(payload: RemoteErrorPayload) {
+    super(payload.message);
+    this.remoteName = payload.name;
+    this.code = payload.code;
+    this.details = payload.details;
   }
 }
@@ -1,20 +1,30 @@
 export { RMQClient } from './client/RMQClient';
+export { RMQServiceClient } from './client/RMQServiceClient';
 export * from './core/HandlerRegistry';
+export { LRUCacheStore } from './core/LRUCacheStore';
 export * from './core/RMQConnectionManager';
 export { RMQBaseError } from './errors/BaseError';
 export {
+  RMQAbortError,
   RMQChannelError,
+  RMQCircuitOpenError,
   RMQConnectionError,
+  RMQLimitExceededError,
   RMQTimeoutError,
 } from './errors/ConnectionError';
 export {
   RMQHandlerError,
   RMQPublishError,
+  RMQRemoteError,
+  RMQUnroutableError,
+  RMQValidationError,
 } from './errors/HandlerError';
 export * from './interfaces/client';
 export * from './interfaces/common';
+export * from './interfaces/contract';
 export * from './interfaces/server';
 export { RMQServer } from './server/RMQServer';
+export { defineContract, route } from './utils/contract';
 export {
   type GracefulShutdownOptions,
   type GracefulShutdownResult,
@@ -1,9 +1,207 @@
 // src/interfaces/client.ts
 
-import type { RMQOptions, ShutdownOptions, ShutdownResult } from './common';
+import { RMQTimeoutError } from '../errors/ConnectionError';
+import { RMQPublishError, type RMQRemoteError } from '../errors/HandlerError';
+import type {
+  DelayedMessageOptions,
+  ExchangeOptions,
+  ExchangeType,
+  RMQOptions,
+  ShutdownOptions,
+  ShutdownResult,
+} from './common';
+import type { ContractDefinition, ReplyOf, RequestOf, RoutingKeyOf } from './contract';
 
-export interface RMQClientOptions extends RMQOptions {
+/**
+ * Outbound buffer used while the connection is reconnecting
+ */
+export interface OfflineBufferOptions {
+  /** Buffer send()/publish() calls during reconnection instead of failing. Default: false */
+  enabled: boolean;
+  /** Maximum number of buffered messages. Default: 1000 */
+  maxSize: number;
+  /** What to do when the buffer is full. Default: 'reject-new' */
+  overflow: 'reject-new' | 'drop-oldest';
+  /** Maximum time a message may wait in the buffer, in milliseconds. Default: 10000 */
+  maxAgeMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Per-routing-key circuit breaker for send()
+ */
+export interface CircuitBreakerOptions {
+  /** Fail fast for routing keys whose consumers keep failing. Default: false */
+  enabled: boolean;
+  /** Consecutive timeouts or remote errors that open the circuit. Default: 5 */
+  failureThreshold: number;
+  /** Time the circuit stays open before allowing trial requests, in milliseconds. Default: 30000 */
+  resetTimeoutMs: number;
+  /** Trial requests allowed while half-open. Default: 1 */
+  halfOpenMaxRequests: number;
+}
+
+/** What to do with a request that exceeds a limit */
+export type LimitBehavior = 'wait' | 'reject';
+
+/**
+ * Cap on RPCs awaiting a reply (send, stream and gather)
+ */
+export interface ConcurrencyLimitOptions {
+  /** Limit requests in flight. Default: false */
+  enabled: boolean;
+  /** Maximum requests in flight across all routing keys. Default: 100 */
+  maxInFlight: number;
+  /** Maximum requests in flight per routing key. Default: Infinity */
+  maxInFlightPerKey: number;
+  /** Wait for a free slot or reject with RMQLimitExceededError. Default: 'wait' */
+  behavior: LimitBehavior;
+  /** Maximum requests waiting for a slot before new ones are rejected. Default: 1000 */
+  maxQueueSize: number;
+}
+
+/**
+ * Token bucket limiting the rate of outgoing messages
+ */
+export interface RateLimitOptions {
+  /** Limit the publish rate. Default: false */
+  enabled: boolean;
+  /** Sustained rate in messages per second. Default: 100 */
+  ratePerSecond: number;
+  /** Bucket size: messages that may be published at once after a quiet period. Default: 100 */
+  burst: number;
+  /** Wait for a token or reject with RMQLimitExceededError. Default: 'wait' */
+  behavior: LimitBehavior;
+  /** Maximum messages waiting for a token before new ones are rejected. Default: 1000 */
+  maxQueueSize: number;
+}
+
+/**
+ * Snapshot of the client's limiters
+ */
+export interface LimiterStats {
+  /** Requests awaiting a reply */
+  inFlight: number;
+  /** Requests waiting for a concurrency slot */
+  waitingForSlot: number;
+  /** Messages waiting for a rate limit token */
+  waitingForRate: number;
+}
+
+/**
+ * What happens to requests awaiting a reply when the connection drops
+ * - 'wait': keep waiting; replies sent to the old reply queue are lost, so requests usually time out
+ * - 'fail': reject at once with RMQConnectionError
+ * - 'republish': resend send() requests to the new reply queue once reconnected
+ * - 'stable-queue': receive replies on a named queue that survives short outages
+ */
+export type InFlightPolicy = 'wait' | 'fail' | 'republish' | 'stable-queue';
+
+export interface RMQClientOptions<C extends ContractDefinition = ContractDefinition>
+  extends RMQOptions {
   exchange?: string;
+  /** Type of the service exchange; must match the server's. Default: 'direct' */
+  exchangeType?: ExchangeType;
+  /** Assertion options of the service exchange; must match the server's. Default: durable */
+  exchangeOptions?: ExchangeOptions;
+  /** Use publisher confirms: publishes settle on broker ack/nack. Default: false */
+  confirm?: boolean;
+  /**
+   * Receive RPC replies via RabbitMQ direct reply-to (`amq.rabbitmq.reply-to`)
+   * instead of declaring an exclusive reply queue. Default: false
+   */
+  directReplyTo?: boolean;
+  /** Buffer outgoing messages while reconnecting */
+  offlineBuffer?: Partial<OfflineBufferOptions>;
+  /** Circuit breaker per routing key */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Default retry policy for send() */
+  retry?: Partial<RequestRetryOptions>;
+  /** Default for the `mandatory` publish flag. Default: false */
+  mandatory?: boolean;
+  /** Limit on retries across all requests of this client */
+  retryBudget?: Partial<RetryBudgetOptions>;
+  /** Routing key contracts: types `send()` and validates replies */
+  contract?: C;
+  /** Cap on requests in flight, globally and per routing key */
+  concurrency?: Partial<ConcurrencyLimitOptions>;
+  /** Publish rate limit */
+  rateLimit?: Partial<RateLimitOptions>;
+  /** Handling of requests awaiting a reply on disconnect. Default: 'wait' */
+  inFlightPolicy?: InFlightPolicy;
+  /** How long the 'stable-queue' reply queue outlives its consumer, in milliseconds. Default: 60000 */
+  replyQueueExpiresMs?: number;
+  /** Reply cache and request coalescing per routing key */
+  cache?: Partial<CacheOptions>;
+  /** Delayed publishing topology; must match the server's `delayed` options */
+  delayed?: Partial<DelayedMessageOptions>;
+}
+
+/**
+ * Automatic retries for send()
+ */
+export interface RequestRetryOptions {
+  /** Total attempts including the first one. Default: 1 (no retries) */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds. Default: 100 */
+  initialDelayMs: number;
+  /** Maximum delay between retries in milliseconds. Default: 5000 */
+  maxDelayMs: number;
+  /** Backoff multiplier. Default: 2 */
+  backoffMultiplier: number;
+  /** Decide whether an error is retryable. Default: timeouts and publish errors */
+  retryOn: (error: Error) => boolean;
+}
+
+/**
+ * Client-wide retry budget
+ */
+export interface RetryBudgetOptions {
+  /** Retry tokens earned per request. Default: 0.1 (one retry per ten requests) */
+  ratio: number;
+  /** Maximum tokens, also the initial balance. Default: 10 */
+  maxTokens: number;
+}
+
+/**
+ * Storage for cached replies, e.g. an adapter for Redis. Values are parsed replies.
+ */
+export interface CacheStore {
+  /** Cached value, or undefined on a miss or after expiry */
+  get(key: string): unknown | Promise<unknown>;
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Reply cache and request coalescing for idempotent send() calls
+ */
+export interface CacheOptions {
+  /** Cache replies of the configured routing keys. Default: false */
+  enabled: boolean;
+  /**
+   * Cache TTL in milliseconds per routing key; only these routing keys are cached and coalesced.
+   * Routing keys of `service()` targets are written `exchange:routingKey`.
+   */
+  routes: Record<string, number>;
+  /** Reply store. Default: in-memory LRU of `maxEntries` */
+  store?: CacheStore;
+  /** Capacity of the default in-memory store. Default: 1000 */
+  maxEntries: number;
+  /** Share one broker round-trip between identical concurrent requests. Default: true */
+  coalesce: boolean;
+}
+
+/**
+ * Request hedging for latency-critical, read-only send() calls
+ */
+export interface HedgeOptions {
+  /** Time without a reply before a duplicate is published, in milliseconds. Default: 100 */
+  delayMs: number;
+  /** Maximum duplicates per request. Default: 1 */
+  maxHedges: number;
 }
 
 export interface SendOptions {
@@ -11,11 +209,203 @@ export interface SendOptions {
   persistent?: boolean;
   nestCompatible?: boolean;
   headers?: Record<string, unknown>;
+  /** Abort the request: rejects locally and notifies the server handler */
+  signal?: AbortSignal;
+  /** Retry policy for this request, merged over the client default; false disables retries */
+  retry?: Partial<RequestRetryOptions> | false;
+  /** Reject with RMQUnroutableError if no queue is bound for the routing key */
+  mandatory?: boolean;
+  /** Message priority, effective on queues declared with `maxPriority` */
+  priority?: number;
+  /** Target exchange. Default: the client's exchange; prefer `client.service()` */
+  exchange?: string;
+  /** Publish duplicates if no reply arrives in time; the first reply wins. send() only */
+  hedge?: Partial<HedgeOptions>;
+  /** Set to false to bypass the reply cache and coalescing for this call */
+  cache?: boolean;
+}
+
+export interface GatherOptions
+  extends Omit<SendOptions, 'timeout' | 'signal' | 'retry' | 'hedge' | 'cache'> {
+  /** Time window for collecting replies in milliseconds. Default: 1000 */
+  window?: number;
+  /** Stop collecting after this many replies */
+  maxReplies?: number;
+  /** Stop early once this many distinct instances have replied */
+  expectedReplies?: number;
+}
+
+/**
+ * One reply collected by gather()
+ */
+export interface GatherReply<T> {
+  /** Reply payload, undefined if the responder failed */
+  content?: T;
+  /** Set when the responder replied with an error envelope */
+  error?: RMQRemoteError;
+  /** Responder identity from the `x-instance-id` reply header */
+  instanceId?: string;
+  /** Time from publish to reply in milliseconds */
+  latencyMs: number;
+  headers: Record<string, unknown>;
+}
+
+export interface PublishOptions {
+  persistent?: boolean;
+  headers?: Record<string, unknown>;
+  /** Emit 'returned' on the client if no queue is bound for the routing key */
+  mandatory?: boolean;
+  /** Message priority, effective on queues declared with `maxPriority` */
+  priority?: number;
+  /** Target exchange. Default: the client's exchange; prefer `client.service()` */
+  exchange?: string;
+  /** Deliver after this many milliseconds */
+  delay?: number;
+  /** Deliver at this time; ignored if `delay` is set */
+  deliverAt?: Date | number;
+}
+
+/**
+ * Outgoing call as seen by client interceptors. Fields may be changed in place before `next()`.
+ */
+export interface ClientRequest {
+  readonly operation: 'send' | 'publish' | 'stream' | 'gather';
+  routingKey: string;
+  message: any;
+  /** Options of the call; `headers` is a copy, so interceptors can add to it */
+  options: SendOptions & PublishOptions & GatherOptions & { headers: Record<string, unknown> };
+}
+
+/**
+ * Client-side interceptor, registered with `client.use()`.
+ * `next()` performs the call and resolves to the parsed reply for send(), the replies for
+ * gather() and undefined for publish(). For stream() it resolves once the stream ended and
+ * rejects with its error; chunks do not pass through interceptors. A stream() interceptor
+ * that does not call `next()` ends the stream without publishing it.
+ */
+export type ClientInterceptor = (request: ClientRequest, next: () => Promise<any>) => Promise<any>;
+
+export interface ServiceOptions<S extends ContractDefinition = ContractDefinition> {
+  /** Contract of the target service: types `send()` and validates replies */
+  contract?: S;
+  /**
+   * Type of the target exchange; must match its server's. Default: 'direct'.
+   * With this or `exchangeOptions` the exchange is asserted; without, it must already exist.
+   */
+  exchangeType?: ExchangeType;
+  /** Assertion options of the target exchange; must match its server's. Default: durable */
+  exchangeOptions?: ExchangeOptions;
+}
+
+/**
+ * Client scoped to another service's exchange, created with `client.service()`
+ */
+export interface RMQServiceClient<C extends ContractDefinition = ContractDefinition> {
+  readonly exchange: string;
+  send<T = never, K extends RoutingKeyOf<C> = RoutingKeyOf<C>>(
+    routingKey: K,
+    message: RequestOf<C, K>,
+    options?: SendOptions,
+  ): Promise<ReplyOf<C, K, T>>;
+  publish(routingKey: string, message: any, options?: PublishOptions): Promise<void>;
+  stream<T>(routingKey: string, message: any, options?: SendOptions): AsyncIterable<T>;
+  gather<T>(routingKey: string, message: any, options?: GatherOptions): Promise<GatherReply<T>[]>;
 }
 
-export interface RMQClient {
+export interface RMQClient<C extends ContractDefinition = ContractDefinition> {
   connect(): Promise<void>;
-  send<T>(routingKey: string, message: any, options?: SendOptions): Promise<T>;
+  send<T = never, K extends RoutingKeyOf<C> = RoutingKeyOf<C>>(
+    routingKey: K,
+    message: RequestOf<C, K>,
+    options?: SendOptions,
+  ): Promise<ReplyOf<C, K, T>>;
+  publish(routingKey: string, message: any, options?: PublishOptions): Promise<void>;
+  stream<T>(routingKey: string, message: any, options?: SendOptions): AsyncIterable<T>;
+  gather<T>(routingKey: string, message: any, options?: GatherOptions): Promise<GatherReply<T>[]>;
+  service<S extends ContractDefinition = ContractDefinition>(
+    exchange: string,
+    options?: ServiceOptions<S>,
+  ): RMQServiceClient<S>;
+  use(interceptor: ClientInterceptor): void;
   shutdown(options?: ShutdownOptions): Promise<ShutdownResult>;
   close(): Promise<void>;
 }
+
+/**
+ * Default offline buffer options
+ */
+export const DEFAULT_OFFLINE_BUFFER_OPTIONS: OfflineBufferOptions = {
+  enabled: false,
+  maxSize: 1000,
+  overflow: 'reject-new',
+  maxAgeMs: 10000,
+};
+
+/**
+ * Default circuit breaker options
+ */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  enabled: false,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * Default send() retry options
+ */
+export const DEFAULT_REQUEST_RETRY_OPTIONS: RequestRetryOptions = {
+  maxAttempts: 1,
+  initialDelayMs: 100,
+  maxDelayMs: 5000,
+  backoffMultiplier: 2,
+  retryOn: (error) => error instanceof RMQTimeoutError || error instanceof RMQPublishError,
+};
+
+/**
+ * Default cache options
+ */
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  enabled: false,
+  routes: {},
+  maxEntries: 1000,
+  coalesce: true,
+};
+
+/**
+ * Default hedge options
+ */
+export const DEFAULT_HEDGE_OPTIONS: HedgeOptions = {
+  delayMs: 100,
+  maxHedges: 1,
+};
+
+/**
+ * Default retry budget options
+ */
+export const DEFAULT_RETRY_BUDGET_OPTIONS: RetryBudgetOptions = {
+  ratio: 0.1,
+  maxTokens: 10,
+};
+
+/**
+ * Default concurrency limit options
+ */
+export const DEFAULT_CONCURRENCY_LIMIT_OPTIONS: ConcurrencyLimitOptions = {
+  enabled: false,
+  maxInFlight: 100,
+  maxInFlightPerKey: Infinity,
+  behavior: 'wait',
+  maxQueueSize: 1000,
+};
+
+/**
+ * Default rate limit options
+ */
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  enabled: false,
+  ratePerSecond: 100,
+  burst: 100,
+  behavior: 'wait',
+  maxQueueSize: 1000,
+};
@@ -1,30 +1,141 @@
 // ./src/interfaces/common.ts
 import type { Channel, Connection, Options } from 'amqplib';
+import type { ChannelOptions, ChannelSetupFn } from './connection';
 
 export interface RMQOptions {
   uri: string;
   appName: string;
 }
 
+/**
+ * Exchange type of a service exchange
+ * - 'direct': handlers match routing keys exactly
+ * - 'topic': handler routing keys may use `*`, `#` and named parameters
+ * - 'fanout': every message reaches the service, which dispatches by routing key
+ * - 'headers': handlers are bound by `bindingHeaders` instead of routing key
+ */
+export type ExchangeType = 'direct' | 'topic' | 'fanout' | 'headers';
+
 export interface RetryOptions {
   maxRetries: number;
   retryTTL: number;
   enabled: boolean;
 }
 
-export interface HandlerContext {
-  content: any;
+type ParamOf<Word extends string> = Word extends `:${infer Name}`
+  ? { [P in Name]: string }
+  : Record<never, never>;
+
+/**
+ * Named parameters of a routing key pattern: `'tenant.:tenantId.invoice'` gives `{ tenantId: string }`
+ */
+export type RouteParams<K extends string> = string extends K
+  ? Record<string, string>
+  : K extends `${infer Word}.${infer Rest}`
+    ? ParamOf<Word> & RouteParams<Rest>
+    : ParamOf<K>;
+
+export interface HandlerContext<TContent = any, TParams = Record<string, string>> {
+  content: TContent;
   routingKey: string;
   headers: { [key: string]: any };
+  /** Aborted when the RPC caller cancels the request */
+  signal?: AbortSignal;
+  /** Message priority set by the sender */
+  priority?: number;
+  /** Absolute time in epoch milliseconds after which the caller stops waiting */
+  deadline?: number;
+  /** Milliseconds left until the deadline; Infinity without one */
+  timeRemaining?: () => number;
+  /** Routing key pattern of the handler that matched */
+  pattern?: string;
+  /** Words matched by `*`, `#` and named parameters in the pattern, in order; a `#` match is joined with '.' */
+  wildcards?: string[];
+  /** Words matched by named parameters like `:tenantId` in the pattern; always set for handlers */
+  params?: TParams;
+}
+
+/**
+ * Error envelope replied to RPC callers when a handler fails its final attempt
+ */
+export interface RemoteErrorPayload {
+  name: string;
+  message: string;
+  code?: string | number;
+  details?: unknown;
+}
+
+/**
+ * Hints sent along with a reply
+ */
+export interface ReplyOptions {
+  /** How long clients may cache this reply in milliseconds; 0 forbids caching */
+  cacheTtlMs?: number;
 }
 
-export type ReplyFunction = (response: any) => void;
+/**
+ * Send a single response
+ */
+export type ReplyFunction<TResponse = any> = (response: TResponse, options?: ReplyOptions) => void;
+
+/**
+ * Reply handed to handlers, which can also stream the response
+ */
+export interface StreamingReplyFunction<TResponse = any> extends ReplyFunction<TResponse> {
+  /** Send one chunk of a streamed response */
+  write(chunk: any): void;
+  /** Finish a streamed response, optionally sending a last chunk */
+  end(chunk?: any): void;
+}
+
+export type HandlerFunction<TContent = any, TResponse = any, TParams = Record<string, string>> = (
+  context: HandlerContext<TContent, TParams> & { params: TParams },
+  reply: StreamingReplyFunction<TResponse>,
+) => Promise<void>;
+
+/**
+ * Routing key used to broadcast RPC cancellation notices to servers on an exchange
+ */
+export const RPC_CANCEL_ROUTING_KEY = 'bunny-route.rpc.cancel';
+
+/**
+ * Header routing cancellation notices on a 'headers' exchange. Not `x-` prefixed:
+ * headers exchanges ignore those when matching.
+ */
+export const RPC_CANCEL_HEADER = 'bunny-rpc-cancel';
+
+/**
+ * How delayed messages are held back until they are due.
+ * - 'plugin': a `x-delayed-message` exchange (requires the rabbitmq_delayed_message_exchange plugin)
+ * - 'ttl-queues': one TTL queue per delay bucket, dead-lettering back into the service exchange
+ */
+export type DelayStrategy = 'plugin' | 'ttl-queues';
+
+/**
+ * Delayed message topology - client and server of an exchange must agree on it
+ */
+export interface DelayedMessageOptions {
+  /** Default: 'ttl-queues' */
+  strategy: DelayStrategy;
+  /**
+   * Delay buckets in milliseconds for 'ttl-queues'. A message waits in the smallest bucket
+   * covering its delay and is delivered no later than that bucket's delay.
+   * Default: 1s, 5s, 15s, 1m, 5m, 15m, 1h, 6h, 24h
+   */
+  buckets: number[];
+}
 
-export type HandlerFunction = (context: HandlerContext, reply: ReplyFunction) => Promise<void>;
+/**
+ * Default delayed message options
+ */
+export const DEFAULT_DELAYED_MESSAGE_OPTIONS: DelayedMessageOptions = {
+  strategy: 'ttl-queues',
+  buckets: [1000, 5000, 15000, 60000, 300000, 900000, 3600000, 21600000, 86400000],
+};
 
 export interface ConnectionManager {
   getConnection(): Promise<Connection>;
-  createChannel(): Promise<Channel>;
+  createChannel(setup?: ChannelSetupFn, options?: ChannelOptions): Promise<Channel>;
   close(): Promise<void>;
 }
 
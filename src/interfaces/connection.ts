@@ -43,12 +43,22 @@ export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'rec
  */
 export type ChannelSetupFn = (channel: Channel) => Promise<void>;
 
+/**
+ * Channel creation options
+ */
+export interface ChannelOptions {
+  /** Open a confirm channel (publisher confirms). Default: false */
+  confirm?: boolean;
+}
+
 /**
  * Registered channel with its setup function for reconnection
  */
 export interface RegisteredChannel {
   channel: Channel;
   setup?: ChannelSetupFn;
+  /** Recreate as a confirm channel after reconnect */
+  confirm?: boolean;
 }
 
 /**
@@ -0,0 +1,43 @@
+// src/interfaces/contract.ts
+
+/**
+ * Runtime validator: returns the (possibly transformed) value or throws.
+ * Compatible with `parse`-style schema functions, e.g. `schema.parse` in zod.
+ */
+export type Validator<T> = (value: unknown) => T;
+
+/**
+ * Request and response shapes of a single routing key
+ */
+export interface RouteContract<TRequest = any, TResponse = any> {
+  /** Validates incoming requests on the server */
+  request?: Validator<TRequest>;
+  /** Validates replies on the client */
+  response?: Validator<TResponse>;
+}
+
+/**
+ * Map from routing key to its route contract, shared by RMQServer and RMQClient
+ */
+export type ContractDefinition = Record<string, RouteContract>;
+
+export type RoutingKeyOf<C extends ContractDefinition> = keyof C & string;
+
+export type RequestOf<C extends ContractDefinition, K extends keyof C> = C[K] extends RouteContract<
+  infer TRequest,
+  any
+>
+  ? TRequest
+  : any;
+
+export type ResponseOf<
+  C extends ContractDefinition,
+  K extends keyof C,
+> = C[K] extends RouteContract<any, infer TResponse> ? TResponse : any;
+
+/**
+ * Reply type of send(): an explicit type argument wins over the contract
+ */
+export type ReplyOf<C extends ContractDefinition, K extends keyof C, T> = [T] extends [never]
+  ? ResponseOf<C, K>
+  : T;
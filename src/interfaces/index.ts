@@ -1,4 +1,5 @@
 export * from './client';
 export * from './common';
 export * from './connection';
+export * from './contract';
 export * from './server';
@@ -2,35 +2,71 @@
 
 import type { MiddlewareFunction } from '../core/MiddlewareManager';
 import type {
+  DelayedMessageOptions,
+  ExchangeOptions,
+  ExchangeType,
   HandlerFunction,
   RetryOptions,
   RMQOptions,
+  RouteParams,
   ShutdownOptions,
   ShutdownResult,
 } from './common';
 import type { ReconnectOptions } from './connection';
+import type { ContractDefinition, RequestOf, ResponseOf, RoutingKeyOf } from './contract';
 
-export interface RMQServerOptions extends RMQOptions {
+export interface RMQServerOptions<C extends ContractDefinition = ContractDefinition>
+  extends RMQOptions {
   retryOptions?: Partial<RetryOptions>;
   exchange?: string;
+  /** Type of the service exchange; clients must use the same. Default: 'direct' */
+  exchangeType?: ExchangeType;
+  /** Assertion options of the service exchange; clients must use the same. Default: durable */
+  exchangeOptions?: ExchangeOptions;
   /** Heartbeat interval in seconds. Default: 10 */
   heartbeat?: number;
   /** Reconnection options */
   reconnect?: Partial<ReconnectOptions>;
+  /** Use publisher confirms for replies, retries and DLQ moves. Default: false */
+  confirm?: boolean;
+  /** Identity attached to every reply as `x-instance-id`. Default: `${hostname}-${pid}` */
+  instanceId?: string;
+  /** Routing key contracts: types `on()` handlers and validates incoming requests */
+  contract?: C;
+  /**
+   * Declare the main and retry queues as priority queues with this maximum priority (1-255).
+   * RabbitMQ refuses to redeclare an existing queue with different arguments.
+   */
+  maxPriority?: number;
+  /** Declare the topology for delayed messages published with `delay` or `deliverAt` */
+  delayed?: Partial<DelayedMessageOptions>;
 }
 
 export interface HandlerOptions {
   maxRetries?: number;
   retryTTL?: number;
   retryEnabled?: boolean;
+  /**
+   * Deliver to every server instance through a per-instance queue instead of the shared
+   * main queue. Use for scatter-gather handlers. Broadcast messages are never retried.
+   */
+  broadcast?: boolean;
+  /** Headers a message must carry to reach this handler; required on a 'headers' exchange */
+  bindingHeaders?: Record<string, unknown>;
+  /** Whether all or any of `bindingHeaders` must match. Default: 'all' */
+  headersMatch?: 'all' | 'any';
 }
 
 export interface ListenOptions {
   prefetch?: number;
 }
 
-export interface RMQServer {
-  on(routingKey: string, handler: HandlerFunction, options?: HandlerOptions): void;
+export interface RMQServer<C extends ContractDefinition = ContractDefinition> {
+  on<K extends RoutingKeyOf<C>>(
+    routingKey: K,
+    handler: HandlerFunction<RequestOf<C, K>, ResponseOf<C, K>, RouteParams<K>>,
+    options?: HandlerOptions,
+  ): void;
   use(middleware: MiddlewareFunction): void;
   listen(options?: ListenOptions): Promise<void>;
   shutdown(options?: ShutdownOptions): Promise<ShutdownResult>;
@@ -1,43 +1,113 @@
 // ./src/server/RMQServer.ts
+import { hostname } from 'node:os';
 import type * as amqp from 'amqplib';
 import type { ConsumeMessage } from 'amqplib';
-import { HandlerRegistry } from '../core/HandlerRegistry';
+import {
+  HandlerRegistry,
+  isWildcardPattern,
+  type RegisteredHandler,
+  toBindingKey,
+} from '../core/HandlerRegistry';
 import { type MiddlewareFunction, MiddlewareManager } from '../core/MiddlewareManager';
 import { RMQConnectionManager } from '../core/RMQConnectionManager';
-import type {
-  HandlerFunction,
-  RetryOptions,
-  ShutdownOptions,
-  ShutdownResult,
+import { RMQValidationError } from '../errors';
+import {
+  DEFAULT_DELAYED_MESSAGE_OPTIONS,
+  type DelayedMessageOptions,
+  type ExchangeOptions,
+  type ExchangeType,
+  type HandlerFunction,
+  type RemoteErrorPayload,
+  type ReplyOptions,
+  type RetryOptions,
+  type RouteParams,
+  RPC_CANCEL_HEADER,
+  RPC_CANCEL_ROUTING_KEY,
+  type ShutdownOptions,
+  type ShutdownResult,
+  type StreamingReplyFunction,
 } from '../interfaces/common';
+import type {
+  ContractDefinition,
+  RequestOf,
+  ResponseOf,
+  RoutingKeyOf,
+} from '../interfaces/contract';
 import type {
   HandlerOptions,
   RMQServer as IRMQServer,
   ListenOptions,
   RMQServerOptions,
 } from '../interfaces/server';
+import {
+  assertDelayTopology,
+  resolveDelayedOptions,
+  validateDelayBuckets,
+} from '../utils/delayUtils';
 import { assertExchange, validateExchange } from '../utils/exchangeUtils';
+import { publishMessage } from '../utils/publishUtils';
+
+/** How long a cancellation is remembered for a request that has not arrived yet */
+const CANCELLED_REQUEST_TTL_MS = 60000;
+
+/**
+ * Read the absolute deadline (epoch milliseconds) stamped by RMQClient
+ */
+function parseDeadline(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const deadline = Number(value);
+  return Number.isFinite(deadline) ? deadline : undefined;
+}
+
+/**
+ * Build the error envelope sent back to RPC callers
+ */
+function toRemoteErrorPayload(error: unknown): RemoteErrorPayload {
+  if (error instanceof Error) {
+    const { code, details } = error as Error & { code?: string | number; details?: unknown };
+    return { name: error.name, message: error.message, code, details };
+  }
+  return { name: 'Error', message: String(error) };
+}
 
-export class RMQServer implements IRMQServer {
+export class RMQServer<C extends ContractDefinition = ContractDefinition> implements IRMQServer<C> {
   private appName: string;
   private exchange: string;
+  private exchangeType: ExchangeType;
+  private exchangeOptions: ExchangeOptions;
   private connectionManager: RMQConnectionManager;
   private handlerRegistry: HandlerRegistry;
   private channel: amqp.Channel | null = null;
   private defaultRetryOptions: Required<RetryOptions>;
   private mainQueueName: string;
   private retryQueueName: string;
+  private retryRoutingKey: string;
   private dlqName: string;
   private middlewareManager: MiddlewareManager;
+  private confirm: boolean;
+  private instanceId: string;
+  private contract: C | null;
+  private maxPriority: number | null;
+  private delayedOptions: DelayedMessageOptions | null = null;
 
   // For reconnection
   private prefetch: number | null = null;
   private consumerTag: string | null = null;
+  private broadcastQueueName: string | null = null;
+  private broadcastConsumerTag: string | null = null;
   private isListening: boolean = false;
 
   // For graceful shutdown - tracks currently executing message handlers
   private inFlightHandlers: Set<Promise<void>> = new Set();
 
+  // Requests dropped because their caller's deadline had passed
+  private expiredCount = 0;
+
+  // For RPC cancellation - abort controllers of running requests by correlationId
+  private activeRequests: Map<string, AbortController> = new Map();
+  // Cancellations that arrived before their request, with arrival time
+  private cancelledRequests: Map<string, number> = new Map();
+
   /**
    * Connection events emitter
    * Use this to subscribe to connection lifecycle events:
@@ -49,12 +119,14 @@ export class RMQServer implements IRMQServer {
    */
   public readonly connection: RMQConnectionManager;
 
-  constructor(options: RMQServerOptions) {
+  constructor(options: RMQServerOptions<C>) {
     if (!options.appName && !options.exchange) {
       throw new Error('Either appName or exchange must be provided');
     }
     this.exchange = options.exchange ?? options.appName;
     this.appName = options.appName;
+    this.exchangeType = options.exchangeType ?? 'direct';
+    this.exchangeOptions = { durable: true, ...options.exchangeOptions };
 
     // Pass heartbeat and reconnect options to ConnectionManager
     this.connectionManager = RMQConnectionManager.getInstance(options.uri, {
@@ -74,8 +146,26 @@ export class RMQServer implements IRMQServer {
     this.mainQueueName = `${this.appName}`;
     this.retryQueueName = `${this.mainQueueName}.retry`;
     this.dlqName = `${this.mainQueueName}.dlq`;
+    // '#' is a plain word only on a direct exchange; other types reach the retry queue by name
+    this.retryRoutingKey = this.exchangeType === 'direct' ? '#' : this.retryQueueName;
     validateExchange(this.exchange);
     this.middlewareManager = new MiddlewareManager();
+    this.confirm = options.confirm ?? false;
+    this.instanceId = options.instanceId ?? `${hostname()}-${process.pid}`;
+    this.contract = options.contract ?? null;
+    if (
+      options.maxPriority !== undefined &&
+      (!Number.isInteger(options.maxPriority) ||
+        options.maxPriority < 1 ||
+        options.maxPriority > 255)
+    ) {
+      throw new Error('maxPriority must be an integer between 1 and 255');
+    }
+    this.maxPriority = options.maxPriority ?? null;
+    if (options.delayed) {
+      this.delayedOptions = { ...DEFAULT_DELAYED_MESSAGE_OPTIONS, ...options.delayed };
+      validateDelayBuckets(this.delayedOptions.buckets);
+    }
   }
 
   /**
@@ -85,36 +175,78 @@ export class RMQServer implements IRMQServer {
     this.channel = channel;
 
     // Setup exchange
-    await assertExchange(channel, this.exchange);
+    await assertExchange(channel, this.exchange, this.exchangeType, this.exchangeOptions);
+
+    // Delayed messages re-enter the exchange with their original routing key once due
+    if (this.delayedOptions) {
+      const delayed = await resolveDelayedOptions(
+        this.connectionManager,
+        this.exchange,
+        this.delayedOptions,
+      );
+      await assertDelayTopology(channel, this.exchange, delayed);
+    }
 
     // Setup DLQ
     await channel.assertQueue(this.dlqName, { durable: true });
 
+    // Priority queues are opt-in: changing queue arguments requires redeclaring the queue
+    const priorityArguments = this.maxPriority ? { 'x-max-priority': this.maxPriority } : {};
+
     // Setup retry queue
     await channel.assertQueue(this.retryQueueName, {
       durable: true,
       arguments: {
         'x-dead-letter-exchange': this.exchange,
+        ...priorityArguments,
       },
       messageTtl: this.defaultRetryOptions.retryTTL,
     });
 
-    await channel.bindQueue(this.retryQueueName, this.exchange, '#');
+    // Other exchange types would route any message to a bound retry queue - use the default exchange
+    const retryExchange = this.exchangeType === 'direct' ? this.exchange : '';
+    if (this.exchangeType === 'direct') {
+      await channel.bindQueue(this.retryQueueName, this.exchange, this.retryRoutingKey);
+    }
 
     // Setup main queue
     await channel.assertQueue(this.mainQueueName, {
       durable: true,
       arguments: {
-        'x-dead-letter-exchange': this.exchange,
-        'x-dead-letter-routing-key': '#',
+        'x-dead-letter-exchange': retryExchange,
+        'x-dead-letter-routing-key': this.retryRoutingKey,
+        ...priorityArguments,
       },
     });
 
-    // Bind all routing keys
+    // Bind all routing keys - broadcast handlers get a per-instance queue instead
+    const broadcastKeys: string[] = [];
     for (const routingKey of this.handlerRegistry.getRoutingKeys()) {
-      await channel.bindQueue(this.mainQueueName, this.exchange, routingKey);
+      const options = this.handlerRegistry.getHandler(routingKey)?.options ?? {};
+      if (options.broadcast) {
+        broadcastKeys.push(routingKey);
+      } else {
+        await this.bindRoutingKey(channel, this.mainQueueName, routingKey, options);
+      }
+    }
+
+    this.broadcastQueueName = null;
+    if (broadcastKeys.length > 0) {
+      const { queue } = await channel.assertQueue('', { exclusive: true });
+      for (const routingKey of broadcastKeys) {
+        const options = this.handlerRegistry.getHandler(routingKey)?.options ?? {};
+        await this.bindRoutingKey(channel, queue, routingKey, options);
+      }
+      this.broadcastQueueName = queue;
     }
 
+    // Per-instance queue for RPC cancellation notices
+    const { queue: cancelQueue } = await channel.assertQueue('', { exclusive: true });
+    await this.bindRoutingKey(channel, cancelQueue, RPC_CANCEL_ROUTING_KEY, {
+      bindingHeaders: { [RPC_CANCEL_HEADER]: 'true' },
+    });
+    await channel.consume(cancelQueue, this.handleCancel.bind(this), { noAck: true });
+
     // Apply prefetch if set
     if (this.prefetch) {
       channel.prefetch(this.prefetch);
@@ -122,19 +254,57 @@ export class RMQServer implements IRMQServer {
 
     // Re-start consumer if was listening
     if (this.isListening) {
-      const result = await channel.consume(this.mainQueueName, this.handleMessage.bind(this), {
-        noAck: false,
-      });
-      this.consumerTag = result.consumerTag;
+      await this.startConsumers(channel);
       console.log(`[RMQServer] Consumer re-established for '${this.appName}'`);
     }
   }
 
+  /**
+   * Bind a queue to the service exchange for a handler, as the exchange type requires
+   */
+  private async bindRoutingKey(
+    channel: amqp.Channel,
+    queue: string,
+    routingKey: string,
+    options: HandlerOptions,
+  ): Promise<void> {
+    switch (this.exchangeType) {
+      case 'fanout':
+        await channel.bindQueue(queue, this.exchange, '');
+        break;
+      case 'headers':
+        await channel.bindQueue(queue, this.exchange, '', {
+          'x-match': options.headersMatch ?? 'all',
+          ...options.bindingHeaders,
+        });
+        break;
+      default:
+        await channel.bindQueue(queue, this.exchange, toBindingKey(routingKey));
+    }
+  }
+
   /**
    * Register a message handler for a routing key
    */
-  public on(routingKey: string, handler: HandlerFunction, options: HandlerOptions = {}): void {
-    this.handlerRegistry.register(routingKey, handler, options);
+  public on<K extends RoutingKeyOf<C>>(
+    routingKey: K,
+    handler: HandlerFunction<RequestOf<C, K>, ResponseOf<C, K>, RouteParams<K>>,
+    options: HandlerOptions = {},
+  ): void {
+    if (this.exchangeType !== 'topic' && isWildcardPattern(routingKey)) {
+      throw new Error(
+        `Routing key '${routingKey}' has wildcards or parameters and requires exchangeType 'topic'`,
+      );
+    }
+    if (this.exchangeType === 'headers' && !options.bindingHeaders) {
+      throw new Error(`Handler for '${routingKey}' needs bindingHeaders on a 'headers' exchange`);
+    }
+    // A fanout exchange cannot route only some messages to the per-instance queue
+    if (this.exchangeType === 'fanout' && options.broadcast) {
+      throw new Error(`Broadcast handler '${routingKey}' is not supported on a 'fanout' exchange`);
+    }
+    // Params are typed from the pattern for callers; the registry stores handlers untyped
+    this.handlerRegistry.register(routingKey, handler as HandlerFunction, options);
   }
 
   public async listen(options?: ListenOptions): Promise<void> {
@@ -144,26 +314,46 @@ export class RMQServer implements IRMQServer {
     }
 
     // Create channel with setup callback for reconnection
-    await this.connectionManager.createChannel(this.setupChannel.bind(this));
+    await this.connectionManager.createChannel(this.setupChannel.bind(this), {
+      confirm: this.confirm,
+    });
 
     // Start consuming
     this.isListening = true;
     if (!this.channel) {
       throw new Error('Channel not initialized');
     }
-    const result = await this.channel.consume(this.mainQueueName, this.handleMessage.bind(this), {
-      noAck: false,
-    });
-    this.consumerTag = result.consumerTag;
+    await this.startConsumers(this.channel);
 
     console.log(`[RMQServer] '${this.appName}' is listening for messages...`);
   }
 
-  private async handleMessage(msg: ConsumeMessage | null): Promise<void> {
+  /**
+   * Start consuming the main queue and, if any, the broadcast queue
+   */
+  private async startConsumers(channel: amqp.Channel): Promise<void> {
+    const result = await channel.consume(
+      this.mainQueueName,
+      (msg) => this.handleMessage(msg, false),
+      { noAck: false },
+    );
+    this.consumerTag = result.consumerTag;
+
+    if (this.broadcastQueueName) {
+      const broadcast = await channel.consume(
+        this.broadcastQueueName,
+        (msg) => this.handleMessage(msg, true),
+        { noAck: false },
+      );
+      this.broadcastConsumerTag = broadcast.consumerTag;
+    }
+  }
+
+  private async handleMessage(msg: ConsumeMessage | null, broadcast: boolean): Promise<void> {
     if (!msg || !this.channel) return;
 
     // Track this handler for graceful shutdown
-    const handlerPromise = this.processMessage(msg);
+    const handlerPromise = this.processMessage(msg, broadcast);
     this.inFlightHandlers.add(handlerPromise);
 
     try {
@@ -173,17 +363,72 @@ export class RMQServer implements IRMQServer {
     }
   }
 
-  private async processMessage(msg: ConsumeMessage): Promise<void> {
+  /**
+   * Abort a running request, or remember the cancellation if it has not arrived yet
+   */
+  private handleCancel(msg: ConsumeMessage | null): void {
+    // A fanout exchange delivers every request to the cancel queue as well
+    if (msg?.fields.routingKey !== RPC_CANCEL_ROUTING_KEY) return;
+    const correlationId = msg.properties.correlationId;
+    if (!correlationId) return;
+
+    const controller = this.activeRequests.get(correlationId);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+
+    const now = Date.now();
+    for (const [id, cancelledAt] of this.cancelledRequests) {
+      if (now - cancelledAt < CANCELLED_REQUEST_TTL_MS) break;
+      this.cancelledRequests.delete(id);
+    }
+    this.cancelledRequests.set(correlationId, now);
+  }
+
+  /**
+   * @param broadcast - whether the message came from this instance's broadcast queue
+   */
+  private async processMessage(msg: ConsumeMessage, broadcast = false): Promise<void> {
     if (!this.channel) return;
 
+    const correlationId: string | undefined = msg.properties.correlationId;
+    if (correlationId && this.cancelledRequests.delete(correlationId)) {
+      console.log(`[RMQServer] Skipping cancelled request for '${msg.fields.routingKey}'`);
+      this.channel.ack(msg);
+      return;
+    }
+
     const headers = msg.properties.headers || {};
+    const deadline = parseDeadline(headers['x-deadline']);
+    if (deadline !== undefined && Date.now() >= deadline) {
+      // The caller has already timed out - a reply would go nowhere
+      this.expiredCount++;
+      console.warn(
+        `[RMQServer] Dropping expired request for '${msg.fields.routingKey}' (${Date.now() - deadline}ms past deadline)`,
+      );
+      this.channel.ack(msg);
+      return;
+    }
+
     const retryCount = headers['x-retry-count'] ? parseInt(headers['x-retry-count'], 10) : 0;
     const originalRoutingKey = msg.fields.routingKey;
 
-    const registeredHandler = this.handlerRegistry.getHandler(originalRoutingKey);
+    // A catch-all binding on a topic exchange also receives cancellation notices
+    if (originalRoutingKey === RPC_CANCEL_ROUTING_KEY) {
+      this.channel.ack(msg);
+      return;
+    }
+
+    // Overlapping patterns deliver a message to both queues; each copy belongs to its own kind of handler
+    const accept = ({ options }: RegisteredHandler) => !!options.broadcast === broadcast;
+    const match =
+      this.exchangeType === 'headers'
+        ? this.handlerRegistry.matchHeaders(originalRoutingKey, headers, accept)
+        : this.handlerRegistry.match(originalRoutingKey, accept);
 
-    if (registeredHandler) {
-      const { handler, options } = registeredHandler;
+    if (match) {
+      const { handler, options, pattern, wildcards, params } = match;
 
       let content: unknown;
       try {
@@ -194,58 +439,200 @@ export class RMQServer implements IRMQServer {
         return;
       }
 
-      const context = { content, routingKey: originalRoutingKey, headers };
+      const abortController = new AbortController();
+      const context = {
+        content,
+        routingKey: originalRoutingKey,
+        headers,
+        signal: abortController.signal,
+        priority: msg.properties.priority,
+        deadline,
+        timeRemaining: () =>
+          deadline === undefined ? Infinity : Math.max(0, deadline - Date.now()),
+        pattern,
+        wildcards,
+        params,
+      };
+      if (correlationId) {
+        this.activeRequests.set(correlationId, abortController);
+      }
 
-      const reply = (response: any) => {
-        if (msg.properties.replyTo && msg.properties.correlationId && this.channel) {
-          this.channel.sendToQueue(msg.properties.replyTo, Buffer.from(JSON.stringify(response)), {
-            correlationId: msg.properties.correlationId,
-          });
-        }
+      // Once a stream has started, chunks are already with the caller - a retry would duplicate them
+      let streamStarted = false;
+      const write = (chunk: any) => {
+        streamStarted = true;
+        this.sendReply(msg, chunk, { 'x-stream': 'data' });
       };
+      const reply: StreamingReplyFunction = Object.assign(
+        (response: any, replyOptions?: ReplyOptions) => {
+          const cacheTtlMs = replyOptions?.cacheTtlMs;
+          this.sendReply(
+            msg,
+            response,
+            cacheTtlMs === undefined ? undefined : { 'x-cache-ttl': cacheTtlMs },
+          );
+        },
+        {
+          write,
+          end: (chunk?: any) => {
+            if (chunk !== undefined) write(chunk);
+            this.sendReply(msg, null, { 'x-stream': 'end' });
+          },
+        },
+      );
 
       const composedMiddleware = this.middlewareManager.compose(handler);
 
       const retryOptions = {
         maxRetries: options.maxRetries ?? this.defaultRetryOptions.maxRetries,
         retryTTL: options.retryTTL ?? this.defaultRetryOptions.retryTTL,
-        enabled: options.retryEnabled ?? this.defaultRetryOptions.enabled,
+        // Republishing a broadcast would reach every instance again
+        enabled: !options.broadcast && (options.retryEnabled ?? this.defaultRetryOptions.enabled),
       };
 
       try {
+        const validate = this.contract?.[pattern]?.request;
+        if (validate) {
+          try {
+            context.content = validate(content);
+          } catch (validationError) {
+            throw new RMQValidationError(
+              `Invalid request for '${originalRoutingKey}'`,
+              originalRoutingKey,
+              validationError,
+            );
+          }
+        }
         await composedMiddleware(context, async () => {}, reply);
         this.channel.ack(msg);
       } catch (error) {
+        if (abortController.signal.aborted) {
+          // Caller cancelled - nobody is waiting, so neither retry nor dead-letter
+          console.log(`[RMQServer] Request for '${originalRoutingKey}' aborted by caller`);
+          this.channel?.ack(msg);
+          return;
+        }
+
         console.error(`[RMQServer] Error processing '${originalRoutingKey}':`, error);
 
-        if (retryOptions.enabled && retryCount < retryOptions.maxRetries) {
-          headers['x-retry-count'] = retryCount + 1;
-          headers['x-original-routing-key'] = originalRoutingKey;
-          this.channel.publish(this.exchange, originalRoutingKey, msg.content, {
-            headers,
-            persistent: true,
-            expiration: retryOptions.retryTTL.toString(),
-          });
-          this.channel.ack(msg);
-        } else {
-          await this.sendToDLQ(msg);
-          this.channel.ack(msg);
+        let deadLettered = false;
+        try {
+          // An invalid request fails the same way on every attempt
+          const retryable = !streamStarted && !(error instanceof RMQValidationError);
+          if (retryOptions.enabled && retryCount < retryOptions.maxRetries && retryable) {
+            headers['x-retry-count'] = retryCount + 1;
+            headers['x-original-routing-key'] = originalRoutingKey;
+            await publishMessage(
+              this.channel,
+              this.exchange,
+              originalRoutingKey,
+              msg.content,
+              {
+                headers,
+                persistent: true,
+                expiration: retryOptions.retryTTL.toString(),
+                replyTo: msg.properties.replyTo,
+                correlationId: msg.properties.correlationId,
+                priority: msg.properties.priority,
+              },
+              this.confirm,
+            );
+          } else {
+            await this.sendToDLQ(msg);
+            deadLettered = true;
+          }
+          this.channel?.ack(msg);
+        } catch (publishError) {
+          // Message could not be moved - requeue the original so it is not lost
+          console.error(
+            `[RMQServer] Failed to move message for '${originalRoutingKey}', requeueing:`,
+            publishError,
+          );
+          this.channel?.nack(msg, false, true);
+        }
+
+        // Final attempt failed - let an RPC caller know instead of waiting for its timeout.
+        // Sent after the ack so the reply never decides whether the message is requeued.
+        if (deadLettered) {
+          this.sendReply(msg, toRemoteErrorPayload(error), { 'x-rpc-error': true });
+        }
+      } finally {
+        // A hedged duplicate may have registered the same correlationId meanwhile
+        if (correlationId && this.activeRequests.get(correlationId) === abortController) {
+          this.activeRequests.delete(correlationId);
         }
       }
-    } else {
+    } else if (this.exchangeType === 'fanout') {
+      // A fanout exchange delivers every message, including those meant for other services
       console.warn(`[RMQServer] No handler for routingKey: ${originalRoutingKey}`);
       this.channel.ack(msg);
+    } else {
+      // Bound by a binding no handler accepts, e.g. one left on the durable queue by an older version
+      console.warn(`[RMQServer] No handler for routingKey: ${originalRoutingKey}, dead-lettering`);
+      try {
+        await this.sendToDLQ(msg);
+        this.channel?.ack(msg);
+      } catch (publishError) {
+        console.error(
+          `[RMQServer] Failed to dead-letter message for '${originalRoutingKey}', requeueing:`,
+          publishError,
+        );
+        this.channel?.nack(msg, false, true);
+      }
+    }
+  }
+
+  /**
+   * Send a reply to the caller if the message was an RPC request
+   */
+  private sendReply(msg: ConsumeMessage, response: any, headers?: Record<string, unknown>): void {
+    if (!msg.properties.replyTo || !msg.properties.correlationId || !this.channel) return;
+
+    let content: Buffer;
+    let replyHeaders = headers;
+    try {
+      content = Buffer.from(JSON.stringify(response));
+    } catch (error) {
+      // Circular references or BigInts - report a plain error instead of leaving the caller waiting
+      console.error(`[RMQServer] Failed to serialize reply for '${msg.fields.routingKey}':`, error);
+      const payload: RemoteErrorPayload = headers?.['x-rpc-error']
+        ? { name: String(response.name), message: String(response.message) }
+        : { name: 'Error', message: 'Failed to serialize reply' };
+      content = Buffer.from(JSON.stringify(payload));
+      replyHeaders = { ...headers, 'x-rpc-error': true };
     }
+
+    publishMessage(
+      this.channel,
+      '',
+      msg.properties.replyTo,
+      content,
+      {
+        correlationId: msg.properties.correlationId,
+        headers: { ...replyHeaders, 'x-instance-id': this.instanceId },
+      },
+      this.confirm,
+    ).catch((error) => {
+      console.error(`[RMQServer] Failed to send reply for '${msg.fields.routingKey}':`, error);
+    });
   }
 
   private async sendToDLQ(msg: ConsumeMessage): Promise<void> {
     if (!this.channel) return;
 
     console.log(`[RMQServer] Sending message to DLQ: ${msg.fields.routingKey}`);
-    this.channel.sendToQueue(this.dlqName, msg.content, {
-      headers: msg.properties.headers,
-      persistent: true,
-    });
+    await publishMessage(
+      this.channel,
+      '',
+      this.dlqName,
+      msg.content,
+      {
+        headers: msg.properties.headers,
+        persistent: true,
+        priority: msg.properties.priority,
+      },
+      this.confirm,
+    );
   }
 
   /**
@@ -260,7 +647,7 @@ export class RMQServer implements IRMQServer {
 
     this.isListening = false;
 
-    // 1. Cancel consumer to stop receiving new messages
+    // 1. Cancel consumers to stop receiving new messages
     if (this.channel && this.consumerTag) {
       try {
         await this.channel.cancel(this.consumerTag);
@@ -269,6 +656,14 @@ export class RMQServer implements IRMQServer {
         // Channel may already be closed
       }
     }
+    if (this.channel && this.broadcastConsumerTag) {
+      try {
+        await this.channel.cancel(this.broadcastConsumerTag);
+        this.broadcastConsumerTag = null;
+      } catch {
+        // Channel may already be closed
+      }
+    }
 
     // 2. Wait for in-flight handlers to complete (unless force)
     let timedOut = false;
@@ -345,4 +740,11 @@ export class RMQServer implements IRMQServer {
   public getConnectionState(): string {
     return this.connectionManager.getState();
   }
+
+  /**
+   * Get number of requests dropped because they arrived after their deadline
+   */
+  public getExpiredCount(): number {
+    return this.expiredCount;
+  }
 }
@@ -0,0 +1,29 @@
+// src/utils/contract.ts
+
+import type { ContractDefinition, RouteContract, Validator } from '../interfaces/contract';
+
+/**
+ * Declare a route contract
+ *
+ * @example
+ * ```typescript
+ * const contract = defineContract({
+ *   // Compile-time types only
+ *   'user.get': route<{ id: number }, User>(),
+ *   // Types inferred from runtime validators
+ *   'user.create': route({ request: CreateUserSchema.parse, response: UserSchema.parse }),
+ * });
+ * ```
+ */
+export function route<TRequest = any, TResponse = any>(
+  validators: { request?: Validator<TRequest>; response?: Validator<TResponse> } = {},
+): RouteContract<TRequest, TResponse> {
+  return validators;
+}
+
+/**
+ * Identity helper that keeps the literal routing keys of a contract
+ */
+export function defineContract<C extends ContractDefinition>(contract: C): C {
+  return contract;
+}
@@ -0,0 +1,139 @@
+// src/utils/delayUtils.ts
+
+import type { Channel, Connection } from 'amqplib';
+import type { RMQConnectionManager } from '../core/RMQConnectionManager';
+import { RMQPublishError } from '../errors/HandlerError';
+import type { DelayedMessageOptions } from '../interfaces/common';
+
+// Headers exchanges ignore `x-` prefixed headers when matching, so this one must not use the prefix
+const DELAY_BUCKET_HEADER = 'bunny-delay-bucket';
+
+export function delayExchangeName(exchange: string): string {
+  return `${exchange}.delay`;
+}
+
+export function delayQueueName(exchange: string, bucketMs: number): string {
+  return `${exchange}.delay.${bucketMs}`;
+}
+
+export function validateDelayBuckets(buckets: number[]): void {
+  if (buckets.length === 0 || buckets.some((ms) => !Number.isInteger(ms) || ms <= 0)) {
+    throw new Error('Delay buckets must be a non-empty list of positive integers');
+  }
+}
+
+/**
+ * Declare the exchange delayed messages are published to.
+ * With 'plugin' it delays messages itself; with 'ttl-queues' it routes them to a bucket queue.
+ */
+export async function assertDelayExchange(
+  channel: Channel,
+  exchange: string,
+  options: DelayedMessageOptions,
+): Promise<void> {
+  if (options.strategy === 'plugin') {
+    await channel.assertExchange(delayExchangeName(exchange), 'x-delayed-message', {
+      durable: true,
+      arguments: { 'x-delayed-type': 'topic' },
+    });
+  } else {
+    await channel.assertExchange(delayExchangeName(exchange), 'headers', { durable: true });
+  }
+}
+
+/**
+ * Whether the broker has the delayed message plugin, found out by declaring the plugin exchange.
+ * Use a scratch connection: RabbitMQ closes the connection on an unknown exchange type.
+ */
+export async function hasDelayPlugin(
+  connection: Connection,
+  exchange: string,
+  options: DelayedMessageOptions,
+): Promise<boolean> {
+  try {
+    const channel = await connection.createChannel();
+    channel.on('error', () => {
+      // Reported through the rejected declaration
+    });
+    await assertDelayExchange(channel, exchange, { ...options, strategy: 'plugin' });
+    await channel.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Options in effect on the broker: 'plugin' falls back to 'ttl-queues' when the plugin is missing
+ */
+export async function resolveDelayedOptions(
+  connectionManager: RMQConnectionManager,
+  exchange: string,
+  options: DelayedMessageOptions,
+): Promise<DelayedMessageOptions> {
+  if (options.strategy !== 'plugin') return options;
+
+  const available = await connectionManager.withScratchConnection((connection) =>
+    hasDelayPlugin(connection, exchange, options),
+  );
+  if (available) return options;
+
+  console.warn(
+    `[bunny-route] Delayed message plugin not available for "${exchange}", falling back to TTL queues`,
+  );
+  return { ...options, strategy: 'ttl-queues' };
+}
+
+/**
+ * Declare the full delay topology: the delay exchange and its path back into the service exchange
+ */
+export async function assertDelayTopology(
+  channel: Channel,
+  exchange: string,
+  options: DelayedMessageOptions,
+): Promise<void> {
+  await assertDelayExchange(channel, exchange, options);
+
+  if (options.strategy === 'plugin') {
+    await channel.bindExchange(exchange, delayExchangeName(exchange), '#');
+    return;
+  }
+
+  // Expired messages are dead-lettered with their original routing key
+  for (const bucketMs of options.buckets) {
+    const queue = delayQueueName(exchange, bucketMs);
+    await channel.assertQueue(queue, {
+      durable: true,
+      messageTtl: bucketMs,
+      arguments: { 'x-dead-letter-exchange': exchange },
+    });
+    await channel.bindQueue(queue, delayExchangeName(exchange), '', {
+      'x-match': 'all',
+      [DELAY_BUCKET_HEADER]: String(bucketMs),
+    });
+  }
+}
+
+/**
+ * Publish properties holding a message back for `delayMs`
+ * @throws RMQPublishError if the delay exceeds the largest 'ttl-queues' bucket
+ */
+export function delayProperties(
+  routingKey: string,
+  delayMs: number,
+  options: DelayedMessageOptions,
+): { headers: Record<string, unknown>; expiration?: number } {
+  if (options.strategy === 'plugin') {
+    return { headers: { 'x-delay': delayMs } };
+  }
+
+  // Per-message expiration inside the bucket: exact unless a longer delay is ahead in the queue
+  const bucketMs = [...options.buckets].sort((a, b) => a - b).find((ms) => ms >= delayMs);
+  if (bucketMs === undefined) {
+    throw new RMQPublishError(
+      `Delay of ${delayMs}ms exceeds the largest delay bucket (${Math.max(...options.buckets)}ms)`,
+      routingKey,
+    );
+  }
+  return { headers: { [DELAY_BUCKET_HEADER]: String(bucketMs) }, expiration: delayMs };
+}
@@ -33,3 +33,23 @@ export async function assertExchange(
     console.log(`Skipping assertion for reserved exchange "${exchange}".`);
   }
 }
+
+/**
+ * Check that an exchange exists without declaring it. Runs on a channel of its own,
+ * since the broker closes the channel of a failed check.
+ */
+export async function exchangeExists(connection: any, exchange: string): Promise<boolean> {
+  if (isReservedExchange(exchange)) return true;
+
+  const channel = await connection.createChannel();
+  channel.on('error', () => {
+    // Reported through the rejected check
+  });
+  try {
+    await channel.checkExchange(exchange);
+  } catch {
+    return false;
+  }
+  await channel.close().catch(() => {});
+  return true;
+}
@@ -0,0 +1,37 @@
+// src/utils/publishUtils.ts
+
+import type { Channel, ConfirmChannel, Options } from 'amqplib';
+import { RMQPublishError } from '../errors/HandlerError';
+
+/**
+ * Publish a message and settle once it is safe to consider it sent.
+ *
+ * On a plain channel the promise resolves as soon as the message is handed to
+ * the channel. A full write buffer is only backpressure - the message is still
+ * written - so it does not reject. On a confirm channel it waits for the broker's
+ * ack and rejects with RMQPublishError on nack.
+ */
+export function publishMessage(
+  channel: Channel,
+  exchange: string,
+  routingKey: string,
+  content: Buffer,
+  options: Options.Publish,
+  confirm: boolean = false,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (!confirm) {
+      channel.publish(exchange, routingKey, content, options);
+      resolve();
+      return;
+    }
+
+    (channel as ConfirmChannel).publish(exchange, routingKey, content, options, (err) => {
+      if (err) {
+        reject(new RMQPublishError(`Broker nacked message for '${routingKey}'`, routingKey));
+      } else {
+        resolve();
+      }
+    });
+  });
+}